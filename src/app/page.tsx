@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import Chessboard from '@/components/Chessboard';
 import EvalBar from '@/components/EvalBar';
 import MoveList from '@/components/MoveList';
@@ -8,46 +8,146 @@ import TensionMeter from '@/components/TensionMeter';
 import PersonalitySelector from '@/components/PersonalitySelector';
 import GameAnalysis from '@/components/GameAnalysis';
 import EloDashboard from '@/components/EloDashboard';
+import EngineLine from '@/components/EngineLine';
+import ChessClock from '@/components/ChessClock';
+import ImportPanel from '@/components/ImportPanel';
+import OpeningExplorer from '@/components/OpeningExplorer';
+import ResumePrompt from '@/components/ResumePrompt';
+import ProfilePicker from '@/components/ProfilePicker';
 import { useChessGame } from '@/hooks/useChessGame';
-import { Personality } from '@/lib/types';
-import { loadProfile } from '@/lib/player-profile';
+import { Personality, TimeControl } from '@/lib/types';
+import { GameCheckpoint, loadActiveGames, profileRating, toSavedGame } from '@/lib/player-profile';
+import { isProvisional } from '@/lib/glicko';
 import { getRandomCommentary, getPersonalityConfig } from '@/lib/personalities';
+import { ENGINE_LABELS, EnginePreference } from '@/lib/engine-factory';
+import { TIME_CONTROL_PRESETS, formatTimeControl } from '@/lib/clock';
+import { downloadPgn, gameToPgn, pgnFileName } from '@/lib/pgn';
+import { PgnGame } from '@/lib/pgn-import';
+import { DRAW_REASON_LABELS } from '@/lib/draws';
+import { ImportSummary } from '@/lib/backup';
+
+const ENGINE_OPTIONS: Array<{ value: EnginePreference; label: string }> = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'stockfish', label: 'Stockfish' },
+  { value: 'simple', label: 'Built-in' },
+];
 
 export default function Home() {
   const {
     fen,
     gameState,
+    profile,
     isEngineReady,
+    engineBackend,
+    enginePreference,
     isThinking,
     lastComment,
     moveHistory,
     evalBar,
+    liveEval,
     gameOver,
+    analysisProgress,
+    clockTimes,
+    takebacksLeft,
+    canTakeBack,
+    drawClaim,
+    canOfferDraw,
+    canAbort,
     startGame,
+    reviewImportedGame,
     makePlayerMove,
+    takeBack,
+    claimDraw,
+    offerDraw,
     resign,
+    abort,
+    resumeGame,
+    abandonGame,
+    selectProfile,
+    addProfile,
+    cancelAnalysis,
+    setEnginePreference,
     getLegalMoves,
     getAnalysis,
   } = useChessGame();
 
   const [selectedPersonality, setSelectedPersonality] = useState<Personality>('mentor');
   const [playerColor, setPlayerColor] = useState<'white' | 'black'>('white');
+  const [timeControl, setTimeControl] = useState<TimeControl | null>(null);
+  const [rated, setRated] = useState(false);
   const [showAnalysis, setShowAnalysis] = useState(false);
   const [showDashboard, setShowDashboard] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [gameStarted, setGameStarted] = useState(false);
+  const [unfinishedGames, setUnfinishedGames] = useState<GameCheckpoint[]>([]);
+
+  const profileId = profile?.id;
+  const refreshUnfinishedGames = useCallback(() => {
+    if (!profileId) return;
+    loadActiveGames(profileId)
+      .then(setUnfinishedGames)
+      .catch(err => console.warn('Failed to load unfinished games:', err));
+  }, [profileId]);
 
-  const profile = loadProfile();
+  useEffect(() => {
+    refreshUnfinishedGames();
+  }, [refreshUnfinishedGames]);
 
   const handleStartGame = useCallback(() => {
-    startGame(playerColor, selectedPersonality);
+    startGame(playerColor, selectedPersonality, timeControl, undefined, rated);
+    setGameStarted(true);
+    setShowAnalysis(false);
+  }, [startGame, playerColor, selectedPersonality, timeControl, rated]);
+
+  const handlePlayFrom = useCallback((fen: string) => {
+    startGame(playerColor, selectedPersonality, timeControl, fen, rated);
+    setShowImport(false);
     setGameStarted(true);
     setShowAnalysis(false);
-  }, [startGame, playerColor, selectedPersonality]);
+  }, [startGame, playerColor, selectedPersonality, timeControl, rated]);
+
+  const handleAnalyzeImport = useCallback((game: PgnGame) => {
+    reviewImportedGame(game, playerColor);
+    setShowImport(false);
+    setGameStarted(true);
+    setShowAnalysis(false);
+  }, [reviewImportedGame, playerColor]);
 
   const handleNewGame = useCallback(() => {
     setGameStarted(false);
     setShowAnalysis(false);
-  }, []);
+    refreshUnfinishedGames();
+  }, [refreshUnfinishedGames]);
+
+  const handleResume = useCallback((gameId: string) => {
+    const game = unfinishedGames.find(c => c.state.id === gameId);
+    if (!game || !resumeGame(game)) return;
+    setSelectedPersonality(game.state.personality);
+    setPlayerColor(game.state.playerColor);
+    setGameStarted(true);
+    setShowAnalysis(false);
+  }, [unfinishedGames, resumeGame]);
+
+  const handleAbandon = useCallback((gameId: string) => {
+    const game = unfinishedGames.find(c => c.state.id === gameId);
+    if (!game) return;
+    abandonGame(game);
+    setUnfinishedGames(games => games.filter(c => c !== game));
+  }, [unfinishedGames, abandonGame]);
+
+  // Show the restored player, with the settings the backup brought along
+  const handleBackupRestored = useCallback((summary: ImportSummary) => {
+    selectProfile(summary.profile.id);
+    if (summary.settings.enginePreference !== enginePreference) {
+      setEnginePreference(summary.settings.enginePreference);
+    }
+  }, [selectProfile, enginePreference, setEnginePreference]);
+
+  const handleExportPgn = useCallback(() => {
+    if (!gameState) return;
+    const game = toSavedGame(gameState, gameState.startTime);
+    downloadPgn(gameToPgn(game), pgnFileName(game));
+  }, [gameState]);
 
   const analysis = gameOver ? getAnalysis() : null;
 
@@ -67,15 +167,16 @@ export default function Home() {
           </div>
 
           {/* Player info */}
-          <div className="bg-zinc-900 rounded-xl p-4 border border-zinc-800">
+          <div className="bg-zinc-900 rounded-xl p-4 border border-zinc-800 space-y-4">
+            <ProfilePicker profile={profile} onSelect={selectProfile} onCreate={addProfile} />
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-zinc-400">Your Rating</p>
-                <p className="text-3xl font-bold text-emerald-400">{profile.elo}</p>
+                <p className="text-3xl font-bold text-emerald-400">{profile?.elo ?? '—'}{profile && isProvisional(profileRating(profile)) && '?'}</p>
               </div>
               <div className="text-right">
                 <p className="text-sm text-zinc-400">Games Played</p>
-                <p className="text-3xl font-bold text-zinc-300">{profile.gamesPlayed}</p>
+                <p className="text-3xl font-bold text-zinc-300">{profile?.gamesPlayed ?? '—'}</p>
               </div>
               <button
                 onClick={() => setShowDashboard(true)}
@@ -86,6 +187,14 @@ export default function Home() {
             </div>
           </div>
 
+          {/* Unfinished games */}
+          <ResumePrompt
+            games={unfinishedGames}
+            disabled={!isEngineReady}
+            onResume={handleResume}
+            onAbandon={handleAbandon}
+          />
+
           {/* Color selection */}
           <div className="space-y-2">
             <h3 className="text-xs text-zinc-400 uppercase tracking-wider">Play As</h3>
@@ -115,6 +224,81 @@ export default function Home() {
             </div>
           </div>
 
+          {/* Time control */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs text-zinc-400 uppercase tracking-wider">Time Control</h3>
+              <span className="text-xs text-zinc-500 capitalize">{timeControl ? timeControl.category : 'Untimed'}</span>
+            </div>
+            <div className="grid grid-cols-5 gap-2">
+              {[null, ...TIME_CONTROL_PRESETS].map(option => {
+                const label = option ? formatTimeControl(option) : '∞';
+                const selected = option === timeControl;
+                return (
+                  <button
+                    key={label}
+                    onClick={() => setTimeControl(option)}
+                    className={`py-2 rounded-lg border text-sm font-mono transition-all ${
+                      selected
+                        ? 'border-emerald-500 bg-emerald-500/10 text-zinc-200'
+                        : 'border-zinc-700 text-zinc-400 hover:border-zinc-500'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Rated or casual */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs text-zinc-400 uppercase tracking-wider">Mode</h3>
+              <span className="text-xs text-zinc-500">{rated ? 'No takebacks' : 'Takebacks allowed'}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {[false, true].map(option => (
+                <button
+                  key={String(option)}
+                  onClick={() => setRated(option)}
+                  className={`py-2 rounded-lg border text-sm transition-all ${
+                    rated === option
+                      ? 'border-emerald-500 bg-emerald-500/10 text-zinc-200'
+                      : 'border-zinc-700 text-zinc-400 hover:border-zinc-500'
+                  }`}
+                >
+                  {option ? 'Rated' : 'Casual'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Engine selection */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs text-zinc-400 uppercase tracking-wider">Engine</h3>
+              <span className="text-xs text-zinc-500">
+                {engineBackend ? ENGINE_LABELS[engineBackend] : 'Starting...'}
+              </span>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {ENGINE_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => option.value !== enginePreference && setEnginePreference(option.value)}
+                  className={`py-2 rounded-lg border text-sm transition-all ${
+                    enginePreference === option.value
+                      ? 'border-emerald-500 bg-emerald-500/10 text-zinc-200'
+                      : 'border-zinc-700 text-zinc-400 hover:border-zinc-500'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Personality selection */}
           <PersonalitySelector
             selected={selectedPersonality}
@@ -133,12 +317,34 @@ export default function Home() {
           >
             {isEngineReady ? 'Start Game' : 'Loading Engine...'}
           </button>
+          <button
+            onClick={() => setShowImport(true)}
+            disabled={!isEngineReady}
+            className="w-full py-2 rounded-lg text-sm text-zinc-400 hover:text-zinc-200 disabled:hover:text-zinc-400 transition-colors"
+          >
+            Import PGN / FEN
+          </button>
         </div>
 
+        {/* Import overlay */}
+        {showImport && (
+          <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+            <ImportPanel
+              onAnalyze={handleAnalyzeImport}
+              onPlayFrom={handlePlayFrom}
+              onClose={() => setShowImport(false)}
+            />
+          </div>
+        )}
+
         {/* Dashboard overlay */}
-        {showDashboard && (
+        {showDashboard && profile && (
           <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
-            <EloDashboard profile={profile} onClose={() => setShowDashboard(false)} />
+            <EloDashboard
+              profile={profile}
+              onClose={() => setShowDashboard(false)}
+              onBackupRestored={handleBackupRestored}
+            />
           </div>
         )}
       </div>
@@ -156,12 +362,15 @@ export default function Home() {
           <h1 className="text-lg font-bold bg-gradient-to-r from-emerald-400 to-cyan-400 bg-clip-text text-transparent">
             RazorChess
           </h1>
-          <p className="text-xs text-zinc-500">vs {personalityConfig.displayName}</p>
+          <p className="text-xs text-zinc-500">
+            vs {personalityConfig.displayName}
+            {engineBackend && <span className="text-zinc-600"> &middot; {ENGINE_LABELS[engineBackend]}</span>}
+          </p>
         </div>
         <div className="flex items-center gap-4">
           <div className="text-right">
             <p className="text-xs text-zinc-500">Your Rating</p>
-            <p className="text-lg font-bold text-emerald-400">{profile.elo}</p>
+            <p className="text-lg font-bold text-emerald-400">{profile?.elo ?? '—'}{profile && isProvisional(profileRating(profile)) && '?'}</p>
           </div>
           <button
             onClick={() => setShowDashboard(true)}
@@ -175,7 +384,11 @@ export default function Home() {
       {/* Game area */}
       <div className="flex items-start gap-4">
         {/* Eval bar */}
-        <EvalBar evaluation={evalBar} playerColor={gameState?.playerColor || 'white'} />
+        <EvalBar
+          evaluation={evalBar}
+          playerColor={gameState?.playerColor || 'white'}
+          depth={isThinking && liveEval ? liveEval.depth : undefined}
+        />
 
         {/* Board */}
         <Chessboard
@@ -189,6 +402,22 @@ export default function Home() {
 
         {/* Side panel */}
         <div className="w-56 space-y-4">
+          {/* Clocks: opponent on top, like across the board */}
+          {clockTimes && gameState && (
+            <div className="space-y-1.5">
+              <ChessClock
+                label={personalityConfig.displayName}
+                remainingMs={gameState.playerColor === 'white' ? clockTimes.black : clockTimes.white}
+                running={!gameOver && gameState.clock?.running !== null && gameState.clock?.running !== gameState.playerColor}
+              />
+              <ChessClock
+                label="You"
+                remainingMs={clockTimes[gameState.playerColor]}
+                running={!gameOver && gameState.clock?.running === gameState.playerColor}
+              />
+            </div>
+          )}
+
           {/* Engine comment */}
           {lastComment && (
             <div className="bg-zinc-900 rounded-lg p-3 border border-zinc-800">
@@ -199,6 +428,19 @@ export default function Home() {
             </div>
           )}
 
+          {/* Live engine line */}
+          {isThinking && liveEval && <EngineLine liveEval={liveEval} />}
+
+          {/* Opening explorer */}
+          {gameState && (
+            <OpeningExplorer
+              fen={fen}
+              startFen={gameState.startFen}
+              moves={moveHistory}
+              profileId={gameState.playerProfile.id}
+            />
+          )}
+
           {/* Tension meter */}
           <TensionMeter tension={gameState?.tensionScore || 5} />
 
@@ -207,33 +449,92 @@ export default function Home() {
 
           {/* Game controls */}
           <div className="space-y-2">
+            {!gameOver && takebacksLeft > 0 && (
+              <button
+                onClick={takeBack}
+                disabled={!canTakeBack}
+                className="w-full bg-zinc-800 hover:bg-zinc-700 disabled:hover:bg-zinc-800 disabled:text-zinc-600 text-zinc-300 py-2 rounded-lg text-sm transition-colors"
+              >
+                Take Back{Number.isFinite(takebacksLeft) && ` (${takebacksLeft} left)`}
+              </button>
+            )}
+            {drawClaim && (
+              <button
+                onClick={claimDraw}
+                className="w-full bg-zinc-800 hover:bg-zinc-700 text-emerald-400 py-2 rounded-lg text-sm transition-colors"
+              >
+                Claim Draw ({drawClaim === 'repetition' ? 'threefold repetition' : 'fifty-move rule'})
+              </button>
+            )}
             {!gameOver && (
               <button
-                onClick={resign}
+                onClick={offerDraw}
+                disabled={!canOfferDraw}
+                className="w-full bg-zinc-800 hover:bg-zinc-700 disabled:hover:bg-zinc-800 disabled:text-zinc-600 text-zinc-300 py-2 rounded-lg text-sm transition-colors"
+              >
+                Offer Draw
+              </button>
+            )}
+            {!gameOver && (
+              <button
+                onClick={canAbort ? abort : resign}
                 className="w-full bg-zinc-800 hover:bg-zinc-700 text-zinc-300 py-2 rounded-lg text-sm transition-colors"
               >
-                Resign
+                {canAbort ? 'Abort' : 'Resign'}
               </button>
             )}
             {gameOver && (
               <>
                 <div className="bg-zinc-900 rounded-lg p-3 text-center border border-zinc-700">
                   <p className="text-sm font-bold text-zinc-200">
-                    {gameState?.result?.type === 'checkmate'
+                    {!gameState?.result
+                      ? 'Game review'
+                      : gameState.result.type === 'checkmate'
                       ? `Checkmate! ${'winner' in (gameState?.result || {}) ? (gameState?.result as { winner: string }).winner : ''} wins!`
                       : gameState?.result?.type === 'stalemate'
                       ? 'Stalemate!'
                       : gameState?.result?.type === 'resignation'
                       ? `${'winner' in (gameState?.result || {}) ? (gameState?.result as { winner: string }).winner : ''} wins by resignation`
+                      : gameState?.result?.type === 'timeout'
+                      ? `${gameState.result.winner} wins on time`
+                      : gameState?.result?.type === 'abandonment'
+                      ? `${gameState.result.winner} wins by abandonment`
+                      : gameState?.result?.type === 'aborted'
+                      ? 'Game aborted'
+                      : gameState?.result?.type === 'draw'
+                      ? `Draw ${DRAW_REASON_LABELS[gameState.result.reason]}`
                       : 'Draw!'}
                   </p>
                 </div>
-                <button
-                  onClick={() => setShowAnalysis(true)}
-                  className="w-full bg-blue-600 hover:bg-blue-500 text-white py-2 rounded-lg text-sm font-semibold transition-colors"
-                >
-                  View Analysis
-                </button>
+                {analysisProgress ? (
+                  <div className="bg-zinc-900 rounded-lg p-3 border border-zinc-800 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-zinc-400">Analyzing your moves...</span>
+                      <span className="text-xs font-mono text-zinc-500">
+                        {analysisProgress.analyzed}/{analysisProgress.total}
+                      </span>
+                    </div>
+                    <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                      <div
+                        className="h-full rounded-full bg-blue-500 transition-all duration-300"
+                        style={{ width: `${analysisProgress.total > 0 ? analysisProgress.analyzed / analysisProgress.total * 100 : 0}%` }}
+                      />
+                    </div>
+                    <button
+                      onClick={cancelAnalysis}
+                      className="w-full text-xs text-zinc-400 hover:text-zinc-200 transition-colors"
+                    >
+                      Skip analysis
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setShowAnalysis(true)}
+                    className="w-full bg-blue-600 hover:bg-blue-500 text-white py-2 rounded-lg text-sm font-semibold transition-colors"
+                  >
+                    View Analysis
+                  </button>
+                )}
                 <button
                   onClick={handleNewGame}
                   className="w-full bg-emerald-600 hover:bg-emerald-500 text-white py-2 rounded-lg text-sm font-semibold transition-colors"
@@ -254,14 +555,19 @@ export default function Home() {
             moves={moveHistory}
             onClose={() => setShowAnalysis(false)}
             onNewGame={handleNewGame}
+            onExportPgn={handleExportPgn}
           />
         </div>
       )}
 
       {/* Dashboard overlay */}
-      {showDashboard && (
+      {showDashboard && profile && (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
-          <EloDashboard profile={profile} onClose={() => setShowDashboard(false)} />
+          <EloDashboard
+            profile={profile}
+            onClose={() => setShowDashboard(false)}
+            onBackupRestored={handleBackupRestored}
+          />
         </div>
       )}
     </div>
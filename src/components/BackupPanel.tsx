@@ -0,0 +1,80 @@
+// ============================================================
+// RazorChess — Backup Panel
+// Save a player's data to a file, or restore it from one
+// ============================================================
+
+'use client';
+
+import { ChangeEvent, useState } from 'react';
+import { PlayerProfile } from '@/lib/types';
+import { ImportMode, ImportSummary, createBackup, downloadBackup, importBackup, readBackup } from '@/lib/backup';
+
+interface BackupPanelProps {
+  profile: PlayerProfile;
+  onRestored: (summary: ImportSummary) => void;
+}
+
+export default function BackupPanel({ profile, onRestored }: BackupPanelProps) {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const handleExport = () => {
+    setBusy(true);
+    createBackup(profile)
+      .then(downloadBackup)
+      .catch(err => setMessage({ text: `Backup failed: ${err instanceof Error ? err.message : err}`, error: true }))
+      .finally(() => setBusy(false));
+  };
+
+  const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (mode === 'replace' && !window.confirm('Replace this player\'s history with the backup?')) return;
+
+    setBusy(true);
+    setMessage(null);
+    file.text()
+      .then(readBackup)
+      .then(backup => importBackup(backup, mode))
+      .then(summary => {
+        const skipped = summary.gamesSkipped > 0 ? `, ${summary.gamesSkipped} already here` : '';
+        setMessage({ text: `Restored ${summary.profile.name}: ${summary.gamesAdded} games${skipped}`, error: false });
+        onRestored(summary);
+      })
+      .catch(err => setMessage({ text: err instanceof Error ? err.message : String(err), error: true }))
+      .finally(() => setBusy(false));
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm text-zinc-400 uppercase tracking-wider mb-3">Backup</h3>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={handleExport}
+          disabled={busy}
+          className="bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded text-xs text-zinc-300 transition-colors"
+        >
+          Save Backup
+        </button>
+        <select
+          value={mode}
+          onChange={e => setMode(e.target.value as ImportMode)}
+          disabled={busy}
+          className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-200"
+        >
+          <option value="merge">Merge</option>
+          <option value="replace">Replace</option>
+        </select>
+        <label className="bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded text-xs text-zinc-300 transition-colors cursor-pointer">
+          Restore Backup
+          <input type="file" accept=".json,application/json" onChange={handleFile} disabled={busy} className="hidden" />
+        </label>
+      </div>
+      {message && (
+        <p className={`text-xs mt-2 ${message.error ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+// ============================================================
+// RazorChess — Chess Clock
+// Both sides' remaining time; the running clock is highlighted
+// ============================================================
+
+'use client';
+
+import { formatClock } from '@/lib/clock';
+
+interface ChessClockProps {
+  label: string;
+  remainingMs: number;
+  running: boolean;
+}
+
+export default function ChessClock({ label, remainingMs, running }: ChessClockProps) {
+  const low = remainingMs < 20_000;
+
+  return (
+    <div
+      className={`flex items-center justify-between rounded-lg px-3 py-2 border transition-colors ${
+        running
+          ? low
+            ? 'bg-red-500/10 border-red-500/60'
+            : 'bg-emerald-500/10 border-emerald-500/60'
+          : 'bg-zinc-900 border-zinc-800'
+      }`}
+    >
+      <span className="text-xs text-zinc-400 truncate">{label}</span>
+      <span
+        className={`text-xl font-mono font-bold tabular-nums ${
+          running ? (low ? 'text-red-400' : 'text-zinc-100') : 'text-zinc-500'
+        }`}
+      >
+        {formatClock(remainingMs)}
+      </span>
+    </div>
+  );
+}
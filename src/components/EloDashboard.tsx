@@ -5,27 +5,82 @@
 
 'use client';
 
-import { PlayerProfile } from '@/lib/types';
-import { loadEloHistory, loadGameHistory } from '@/lib/player-profile';
+import { EloHistory, GamePhase, GlickoRating, Personality, PlayerProfile, SavedGame, TimeControlPool } from '@/lib/types';
+import { loadEloHistory, loadGameHistory, profileRating } from '@/lib/player-profile';
+import { PROVISIONAL_DEVIATION, confidenceInterval, isProvisional } from '@/lib/glicko';
+import { getPersonalityConfig } from '@/lib/personalities';
+import { downloadPgn, gamesToPgn } from '@/lib/pgn';
+import { ImportSummary } from '@/lib/backup';
+import BackupPanel from '@/components/BackupPanel';
 import {
   ResponsiveContainer,
+  ComposedChart,
   LineChart,
+  Area,
   Line,
+  Legend,
   XAxis,
   YAxis,
   Tooltip,
   CartesianGrid,
 } from 'recharts';
-import { useMemo } from 'react';
+import { useEffect, useState } from 'react';
+
+const TIME_CONTROL_POOLS: TimeControlPool[] = ['bullet', 'blitz', 'rapid', 'classical', 'untimed'];
+const POOL_LABELS: Record<TimeControlPool, string> = {
+  bullet: 'Bullet',
+  blitz: 'Blitz',
+  rapid: 'Rapid',
+  classical: 'Classical',
+  untimed: 'Untimed',
+};
+const PHASES: { phase: GamePhase; label: string; color: string }[] = [
+  { phase: 'opening', label: 'Opening', color: '#3b82f6' },
+  { phase: 'middlegame', label: 'Middlegame', color: '#f97316' },
+  { phase: 'endgame', label: 'Endgame', color: '#a855f7' },
+];
+
+// Which rating the history chart follows
+type RatingView = 'overall' | `tc:${TimeControlPool}` | `vs:${Personality}`;
+
+// Points for the chosen rating, one per game that counted towards it.
+// Entries from before deviations were recorded have no band.
+function ratingChartData(history: EloHistory[], view: RatingView) {
+  const points = history.flatMap(e => {
+    if (view === 'overall') {
+      const range = e.deviation !== undefined
+        ? confidenceInterval({ rating: e.elo, deviation: e.deviation }).map(Math.round)
+        : null;
+      return [{ elo: e.elo, range }];
+    }
+    const [kind, key] = view.split(':');
+    const elo = kind === 'tc'
+      ? (e.timeControl === key ? e.timeControlElo : undefined)
+      : (e.opponent === key ? e.personalityElo : undefined);
+    return elo === undefined ? [] : [{ elo, range: null }];
+  });
+  return points.map((p, i) => ({ game: i + 1, ...p }));
+}
 
 interface EloDashboardProps {
   profile: PlayerProfile;
   onClose: () => void;
+  onBackupRestored: (summary: ImportSummary) => void;
 }
 
-export default function EloDashboard({ profile, onClose }: EloDashboardProps) {
-  const eloHistory = useMemo(() => loadEloHistory(), []);
-  const gameHistory = useMemo(() => loadGameHistory(), []);
+export default function EloDashboard({ profile, onClose, onBackupRestored }: EloDashboardProps) {
+  const [eloHistory, setEloHistory] = useState<EloHistory[]>([]);
+  const [gameHistory, setGameHistory] = useState<SavedGame[]>([]);
+  const [view, setView] = useState<RatingView>('overall');
+
+  useEffect(() => {
+    Promise.all([loadEloHistory(profile.id), loadGameHistory(profile.id)])
+      .then(([elo, games]) => {
+        setEloHistory(elo);
+        setGameHistory(games);
+      })
+      .catch(err => console.error('Failed to load history:', err));
+  }, [profile]);
 
   const wins = gameHistory.filter(g => {
     if (!g.result) return false;
@@ -39,11 +94,25 @@ export default function EloDashboard({ profile, onClose }: EloDashboardProps) {
   }).length;
   const draws = gameHistory.length - wins - losses;
 
-  const chartData = eloHistory.map((e, i) => ({
-    game: i + 1,
-    elo: e.elo,
-    result: e.result,
-  }));
+  const rating = profileRating(profile);
+  const provisional = isProvisional(rating);
+  const [low, high] = confidenceInterval(rating).map(Math.round);
+
+  const chartData = ratingChartData(eloHistory, view);
+
+  const timeControlRatings = TIME_CONTROL_POOLS
+    .filter(pool => profile.timeControlRatings?.[pool])
+    .map(pool => ({ view: `tc:${pool}` as RatingView, label: POOL_LABELS[pool], rating: profile.timeControlRatings![pool]! }));
+  const personalityRatings = (Object.keys(profile.personalityRatings ?? {}) as Personality[])
+    .map(p => ({
+      view: `vs:${p}` as RatingView,
+      label: `vs ${getPersonalityConfig(p).displayName}`,
+      rating: profile.personalityRatings![p]!,
+    }));
+
+  const phaseData = eloHistory
+    .filter(e => e.phaseRatings)
+    .map((e, i) => ({ game: i + 1, ...e.phaseRatings }));
 
   const avgTension = gameHistory.length > 0
     ? gameHistory.reduce((s, g) => s + (g.tensionScore || 0), 0) / gameHistory.length
@@ -53,14 +122,34 @@ export default function EloDashboard({ profile, onClose }: EloDashboardProps) {
     <div className="bg-zinc-900 rounded-xl border border-zinc-700 p-6 space-y-6 max-w-2xl w-full max-h-[80vh] overflow-y-auto">
       <div className="flex items-center justify-between">
         <h2 className="text-xl font-bold text-zinc-100">Player Dashboard</h2>
-        <button onClick={onClose} className="text-zinc-400 hover:text-zinc-200 text-lg">&times;</button>
+        <div className="flex items-center gap-3">
+          {gameHistory.length > 0 && (
+            <button
+              onClick={() => downloadPgn(gamesToPgn(gameHistory), 'razorchess-games.pgn')}
+              className="bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded text-xs text-zinc-300 transition-colors"
+            >
+              Export PGN
+            </button>
+          )}
+          <button onClick={onClose} className="text-zinc-400 hover:text-zinc-200 text-lg">&times;</button>
+        </div>
       </div>
 
       {/* ELO rating */}
       <div className="text-center bg-zinc-800 rounded-xl p-6">
         <p className="text-sm text-zinc-400 mb-1">Current Rating</p>
-        <p className="text-5xl font-black text-emerald-400">{profile.elo}</p>
+        <p className="text-5xl font-black text-emerald-400">
+          {profile.elo}{provisional && <span className="text-zinc-500">?</span>}
+        </p>
+        <p className="text-sm text-zinc-400 mt-1">
+          95% range {low}&ndash;{high} &middot; RD {Math.round(rating.deviation)}
+        </p>
         <p className="text-sm text-zinc-500 mt-1">{profile.gamesPlayed} games played</p>
+        {provisional && (
+          <p className="text-xs text-yellow-400 mt-2">
+            Provisional until the deviation drops below {PROVISIONAL_DEVIATION}
+          </p>
+        )}
       </div>
 
       {/* Stats grid */}
@@ -92,27 +181,97 @@ export default function EloDashboard({ profile, onClose }: EloDashboardProps) {
         </div>
       </div>
 
+      {/* Ratings by time control and by personality */}
+      {timeControlRatings.length + personalityRatings.length > 0 && (
+        <div>
+          <h3 className="text-sm text-zinc-400 uppercase tracking-wider mb-3">Ratings</h3>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {[...timeControlRatings, ...personalityRatings].map(r => (
+              <RatingStat
+                key={r.view}
+                label={r.label}
+                rating={r.rating}
+                selected={view === r.view}
+                onClick={() => setView(view === r.view ? 'overall' : r.view)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* ELO chart */}
       {chartData.length > 1 && (
         <div>
-          <h3 className="text-sm text-zinc-400 uppercase tracking-wider mb-2">Rating History</h3>
+          <h3 className="text-sm text-zinc-400 uppercase tracking-wider mb-2">
+            Rating History
+            {view !== 'overall' && (
+              <span className="normal-case tracking-normal text-zinc-500">
+                {' '}&middot; {[...timeControlRatings, ...personalityRatings].find(r => r.view === view)?.label}
+              </span>
+            )}
+          </h3>
           <div className="bg-zinc-800 rounded-lg p-2" style={{ height: 180 }}>
             <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={chartData} margin={{ top: 5, right: 5, bottom: 5, left: 5 }}>
+              <ComposedChart data={chartData} margin={{ top: 5, right: 5, bottom: 5, left: 5 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#3f3f46" />
                 <XAxis dataKey="game" tick={{ fontSize: 10, fill: '#71717a' }} />
                 <YAxis tick={{ fontSize: 10, fill: '#71717a' }} domain={['auto', 'auto']} />
                 <Tooltip
                   contentStyle={{ backgroundColor: '#27272a', border: '1px solid #3f3f46', borderRadius: '8px' }}
-                  formatter={(v) => [String(v), 'ELO']}
+                  formatter={(v, name) => name === 'range'
+                    ? [Array.isArray(v) ? v.join('–') : String(v), '95% range']
+                    : [String(v), 'ELO']}
                 />
+                <Area dataKey="range" stroke="none" fill="#10b981" fillOpacity={0.15} connectNulls />
                 <Line type="monotone" dataKey="elo" stroke="#10b981" strokeWidth={2} dot={{ r: 3, fill: '#10b981' }} />
-              </LineChart>
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
         </div>
       )}
 
+      {/* Phase performance */}
+      {profile.phaseRatings && (
+        <div>
+          <h3 className="text-sm text-zinc-400 uppercase tracking-wider mb-3">Performance by Phase</h3>
+          <div className="grid grid-cols-3 gap-3">
+            {PHASES.map(({ phase, label, color }) => (
+              <div key={phase} className="bg-zinc-800 rounded-lg p-3 text-center">
+                <p className="text-xs text-zinc-400">{label}</p>
+                <p className="text-lg font-bold" style={{ color }}>{profile.phaseRatings?.[phase] ?? '-'}</p>
+              </div>
+            ))}
+          </div>
+          {phaseData.length > 1 && (
+            <div className="bg-zinc-800 rounded-lg p-2 mt-3" style={{ height: 180 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={phaseData} margin={{ top: 5, right: 5, bottom: 5, left: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#3f3f46" />
+                  <XAxis dataKey="game" tick={{ fontSize: 10, fill: '#71717a' }} />
+                  <YAxis tick={{ fontSize: 10, fill: '#71717a' }} domain={['auto', 'auto']} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#27272a', border: '1px solid #3f3f46', borderRadius: '8px' }}
+                  />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  {PHASES.map(({ phase, label, color }) => (
+                    <Line
+                      key={phase}
+                      type="monotone"
+                      dataKey={phase}
+                      name={label}
+                      stroke={color}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Average tension */}
       <div className="bg-zinc-800 rounded-lg p-4 text-center">
         <p className="text-sm text-zinc-400 mb-1">Average Game Tension</p>
@@ -133,10 +292,34 @@ export default function EloDashboard({ profile, onClose }: EloDashboardProps) {
           </div>
         </div>
       )}
+
+      <BackupPanel profile={profile} onRestored={onBackupRestored} />
     </div>
   );
 }
 
+function RatingStat({ label, rating, selected, onClick }: {
+  label: string;
+  rating: GlickoRating;
+  selected: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`rounded-lg p-3 text-center transition-colors ${
+        selected ? 'bg-emerald-900/40 ring-1 ring-emerald-500' : 'bg-zinc-800 hover:bg-zinc-700'
+      }`}
+    >
+      <p className="text-xs text-zinc-400">{label}</p>
+      <p className="text-lg font-bold text-zinc-100">
+        {Math.round(rating.rating)}{isProvisional(rating) && <span className="text-zinc-500">?</span>}
+      </p>
+      <p className="text-xs text-zinc-500">&plusmn;{Math.round(2 * rating.deviation)}</p>
+    </button>
+  );
+}
+
 function MiniStat({ label, value, color }: { label: string; value: string; color: string }) {
   return (
     <div className="bg-zinc-800 rounded-lg p-3 text-center">
@@ -0,0 +1,34 @@
+// ============================================================
+// RazorChess — Live Engine Line
+// Depth counter and principal variation while the engine thinks
+// ============================================================
+
+'use client';
+
+import { PositionEval } from '@/lib/types';
+import { formatLine } from '@/lib/notation';
+
+interface EngineLineProps {
+  liveEval: PositionEval;
+}
+
+export default function EngineLine({ liveEval }: EngineLineProps) {
+  const best = liveEval.bestMoves[0];
+  const evaluation = liveEval.evaluation;
+  const displayEval = liveEval.mate !== null
+    ? `M${Math.abs(liveEval.mate)}`
+    : `${evaluation > 0 ? '+' : ''}${(evaluation / 100).toFixed(2)}`;
+
+  return (
+    <div className="bg-zinc-900 rounded-lg p-3 border border-zinc-800 space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-zinc-400 uppercase tracking-wider">Engine</span>
+        <span className="text-xs font-mono text-zinc-500">depth {liveEval.depth}</span>
+      </div>
+      <p className="text-sm font-mono text-zinc-300 line-clamp-2">
+        <span className="text-zinc-400 mr-2">{displayEval}</span>
+        {best ? formatLine(liveEval.fen, best.pvSan.length > 0 ? best.pvSan : [best.san]) : '...'}
+      </p>
+    </div>
+  );
+}
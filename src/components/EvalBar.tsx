@@ -8,9 +8,10 @@
 interface EvalBarProps {
   evaluation: number; // centipawns, positive = white advantage
   playerColor: 'white' | 'black';
+  depth?: number;     // shown while a search is still deepening
 }
 
-export default function EvalBar({ evaluation, playerColor }: EvalBarProps) {
+export default function EvalBar({ evaluation, playerColor, depth }: EvalBarProps) {
   // Convert centipawn eval to percentage (0-100, where 50 is equal)
   // Using sigmoid-like function for smooth clamping
   const clampedEval = Math.max(-1000, Math.min(1000, evaluation));
@@ -52,6 +53,9 @@ export default function EvalBar({ evaluation, playerColor }: EvalBarProps) {
       <span className="text-xs text-zinc-400 font-mono tabular-nums">
         {displayEval}
       </span>
+      {depth !== undefined && (
+        <span className="text-[10px] text-zinc-500 font-mono tabular-nums">d{depth}</span>
+      )}
     </div>
   );
 }
@@ -5,7 +5,10 @@
 
 'use client';
 
-import { PostGameAnalysis, GameMove } from '@/lib/types';
+import { PostGameAnalysis, GameMove, MoveClass } from '@/lib/types';
+import { formatLine } from '@/lib/notation';
+import { MOVE_CLASS_LABELS } from '@/lib/accuracy';
+import { MOVE_CLASS_COLORS } from '@/components/MoveList';
 import {
   ResponsiveContainer,
   AreaChart,
@@ -21,9 +24,10 @@ interface GameAnalysisProps {
   moves: GameMove[];
   onClose: () => void;
   onNewGame: () => void;
+  onExportPgn?: () => void;
 }
 
-export default function GameAnalysis({ analysis, moves, onClose, onNewGame }: GameAnalysisProps) {
+export default function GameAnalysis({ analysis, moves, onClose, onNewGame, onExportPgn }: GameAnalysisProps) {
   // Build eval chart data
   const chartData = moves.map((m, i) => ({
     move: i + 1,
@@ -31,6 +35,9 @@ export default function GameAnalysis({ analysis, moves, onClose, onNewGame }: Ga
     label: `${Math.ceil((i + 1) / 2)}. ${m.san}`,
     isPlayer: m.isPlayerMove,
   }));
+  const classCounts = (Object.keys(MOVE_CLASS_LABELS) as MoveClass[])
+    .filter(cls => analysis.moveClasses?.[cls])
+    .map(cls => ({ cls, count: analysis.moveClasses[cls] ?? 0 }));
 
   return (
     <div className="bg-zinc-900 rounded-xl border border-zinc-700 p-6 space-y-6 max-w-2xl w-full max-h-[80vh] overflow-y-auto">
@@ -49,6 +56,18 @@ export default function GameAnalysis({ analysis, moves, onClose, onNewGame }: Ga
         <StatCard label="Opening" value={analysis.openingName} color="text-blue-400" small />
       </div>
 
+      {/* Move classes */}
+      {classCounts.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {classCounts.map(({ cls, count }) => (
+            <span key={cls} className="bg-zinc-800 rounded px-2 py-1 text-xs">
+              <span className={`font-bold ${MOVE_CLASS_COLORS[cls]}`}>{count}</span>{' '}
+              <span className="text-zinc-400">{MOVE_CLASS_LABELS[cls]}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Eval graph */}
       <div>
         <h3 className="text-sm text-zinc-400 uppercase tracking-wider mb-2">Evaluation Graph</h3>
@@ -99,6 +118,13 @@ export default function GameAnalysis({ analysis, moves, onClose, onNewGame }: Ga
                   </span>
                 </div>
                 <p className="text-sm text-zinc-300">{moment.description}</p>
+                {moment.best !== moment.played && (
+                  <p className="text-xs font-mono text-zinc-400 mt-1">
+                    <span className="text-zinc-500">Played</span> {moment.played}
+                    <span className="text-zinc-500 ml-2">Best</span>{' '}
+                    <span className="text-emerald-400">{formatLine(moment.fenBefore, moment.bestLine)}</span>
+                  </p>
+                )}
               </div>
             ))}
           </div>
@@ -161,6 +187,14 @@ export default function GameAnalysis({ analysis, moves, onClose, onNewGame }: Ga
         >
           Review Board
         </button>
+        {onExportPgn && (
+          <button
+            onClick={onExportPgn}
+            className="bg-zinc-800 hover:bg-zinc-700 text-zinc-300 font-semibold py-3 px-4 rounded-lg transition-colors"
+          >
+            PGN
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,135 @@
+// ============================================================
+// RazorChess — Import Panel
+// Paste or upload a PGN/FEN to review it or play on from it
+// ============================================================
+
+'use client';
+
+import { useMemo, useState, ChangeEvent } from 'react';
+import { Chess } from 'chess.js';
+import { PgnGame, finalFen, parseFen, parsePgn } from '@/lib/pgn-import';
+
+interface ImportPanelProps {
+  onAnalyze: (game: PgnGame) => void;
+  onPlayFrom: (fen: string) => void;
+  onClose: () => void;
+}
+
+type Parsed =
+  | { kind: 'empty' }
+  | { kind: 'fen'; fen: string }
+  | { kind: 'pgn'; games: PgnGame[] }
+  | { kind: 'error'; message: string };
+
+function parseInput(text: string): Parsed {
+  const trimmed = text.trim();
+  if (!trimmed) return { kind: 'empty' };
+
+  // A single line with slashes is a FEN; anything else is PGN
+  if (!trimmed.includes('\n') && trimmed.split('/').length === 8) {
+    const fen = parseFen(trimmed);
+    return 'fen' in fen ? { kind: 'fen', fen: fen.fen } : { kind: 'error', message: fen.error };
+  }
+  try {
+    return { kind: 'pgn', games: parsePgn(trimmed) };
+  } catch (err) {
+    return { kind: 'error', message: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export default function ImportPanel({ onAnalyze, onPlayFrom, onClose }: ImportPanelProps) {
+  const [text, setText] = useState('');
+  const [selected, setSelected] = useState(0);
+
+  const parsed = useMemo(() => parseInput(text), [text]);
+  const game = parsed.kind === 'pgn' ? parsed.games[Math.min(selected, parsed.games.length - 1)] : null;
+  const position = parsed.kind === 'fen' ? parsed.fen : game ? finalFen(game) : null;
+  const playable = position !== null && !new Chess(position).isGameOver();
+
+  const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(content => {
+      setText(content);
+      setSelected(0);
+    });
+  };
+
+  return (
+    <div className="bg-zinc-900 rounded-xl border border-zinc-700 p-6 space-y-4 max-w-lg w-full max-h-[80vh] overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-zinc-100">Import PGN / FEN</h2>
+        <button onClick={onClose} className="text-zinc-400 hover:text-zinc-200 text-lg">&times;</button>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={e => {
+          setText(e.target.value);
+          setSelected(0);
+        }}
+        placeholder="Paste a PGN or a FEN..."
+        rows={8}
+        className="w-full bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-sm font-mono text-zinc-200 placeholder-zinc-500 focus:outline-none focus:border-emerald-500"
+      />
+
+      <label className="block text-xs text-zinc-400">
+        or load a file{' '}
+        <input type="file" accept=".pgn,.txt,.fen" onChange={handleFile} className="text-xs text-zinc-400" />
+      </label>
+
+      {/* Preview */}
+      {parsed.kind === 'error' && (
+        <p className="text-sm text-red-400 bg-red-500/10 rounded-lg p-3">{parsed.message}</p>
+      )}
+      {parsed.kind === 'fen' && (
+        <p className="text-sm text-zinc-300 bg-zinc-800 rounded-lg p-3">
+          Position, {parsed.fen.split(' ')[1] === 'w' ? 'White' : 'Black'} to move
+        </p>
+      )}
+      {parsed.kind === 'pgn' && (
+        <div className="space-y-1">
+          {parsed.games.length > 1 && (
+            <select
+              value={selected}
+              onChange={e => setSelected(Number(e.target.value))}
+              className="w-full bg-zinc-800 border border-zinc-700 rounded-lg p-2 text-sm text-zinc-200"
+            >
+              {parsed.games.map((g, i) => (
+                <option key={i} value={i}>
+                  {i + 1}. {g.tags.White ?? '?'} vs {g.tags.Black ?? '?'} ({g.result})
+                </option>
+              ))}
+            </select>
+          )}
+          {game && (
+            <p className="text-sm text-zinc-300 bg-zinc-800 rounded-lg p-3">
+              {game.tags.White ?? '?'} vs {game.tags.Black ?? '?'} &middot; {game.moves.length} plies &middot; {game.result}
+            </p>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-zinc-500">
+        Analysis reviews the moves of the side chosen under &ldquo;Play As&rdquo;. Imported games don&apos;t affect your rating.
+      </p>
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => game && onAnalyze(game)}
+          disabled={!game || game.moves.length === 0}
+          className="flex-1 bg-blue-600 hover:bg-blue-500 disabled:bg-zinc-700 disabled:text-zinc-400 text-white font-semibold py-3 rounded-lg transition-colors"
+        >
+          Analyze Game
+        </button>
+        <button
+          onClick={() => position && onPlayFrom(position)}
+          disabled={!playable}
+          className="flex-1 bg-emerald-600 hover:bg-emerald-500 disabled:bg-zinc-700 disabled:text-zinc-400 text-white font-semibold py-3 rounded-lg transition-colors"
+        >
+          Play From Here
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,23 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
-import { GameMove } from '@/lib/types';
+import { GameMove, MoveClass } from '@/lib/types';
+import { MOVE_CLASS_LABELS, MOVE_CLASS_SYMBOLS, moveClass } from '@/lib/accuracy';
+import { motifName } from '@/lib/motifs';
+
+export const MOVE_CLASS_COLORS: Record<MoveClass, string> = {
+  brilliant: 'text-cyan-400',
+  great: 'text-sky-400',
+  best: 'text-emerald-400',
+  excellent: 'text-emerald-300',
+  good: 'text-zinc-300',
+  book: 'text-amber-200',
+  forced: 'text-zinc-500',
+  inaccuracy: 'text-yellow-400',
+  mistake: 'text-orange-400',
+  miss: 'text-rose-400',
+  blunder: 'text-red-400',
+};
 
 interface MoveListProps {
   moves: GameMove[];
@@ -66,18 +82,18 @@ export default function MoveList({ moves, playerColor }: MoveListProps) {
 function MoveCell({ move }: { move?: GameMove }) {
   if (!move) return <span className="w-24 shrink-0" />;
 
-  let colorClass = 'text-zinc-300';
-  let icon = '';
-
-  if (move.isBlunder) { colorClass = 'text-red-400'; icon = '??'; }
-  else if (move.isMistake) { colorClass = 'text-orange-400'; icon = '?'; }
-  else if (move.isInaccuracy) { colorClass = 'text-yellow-400'; icon = '?!'; }
-  else if (move.isBrilliant) { colorClass = 'text-cyan-400'; icon = '!!'; }
+  const cls = moveClass(move);
+  const colorClass = cls ? MOVE_CLASS_COLORS[cls] : 'text-zinc-300';
+  const icon = cls ? MOVE_CLASS_SYMBOLS[cls] ?? '' : '';
+  const judged = cls
+    ? `${MOVE_CLASS_LABELS[cls]}${move.accuracy !== undefined ? ` (${Math.round(move.accuracy)}%)` : ''} | `
+    : '';
+  const motifs = move.motifs?.length ? ` | ${move.motifs.map(tag => motifName(tag)).join(', ')}` : '';
 
   return (
     <span
       className={`w-24 shrink-0 px-1 py-0.5 rounded ${colorClass} hover:bg-zinc-800 cursor-default transition-colors`}
-      title={`CPL: ${Math.round(move.centipawnLoss)} | Eval: ${(move.evaluation / 100).toFixed(2)} | Think: ${(move.thinkTime / 1000).toFixed(1)}s`}
+      title={`${judged}Eval: ${(move.evaluation / 100).toFixed(2)} | Think: ${(move.thinkTime / 1000).toFixed(1)}s${motifs}`}
     >
       {move.san}
       {icon && <span className="ml-0.5 text-xs">{icon}</span>}
@@ -0,0 +1,69 @@
+// ============================================================
+// RazorChess — Opening Explorer
+// Current ECO line and the user's results for each continuation
+// ============================================================
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { GameMove } from '@/lib/types';
+import { loadGameHistory } from '@/lib/player-profile';
+import { exploreContinuations, identifyOpening, indexHistory } from '@/lib/eco';
+
+interface OpeningExplorerProps {
+  fen: string;
+  startFen: string;
+  moves: GameMove[];
+  profileId: string;
+}
+
+const MAX_CONTINUATIONS = 6;
+
+export default function OpeningExplorer({ fen, startFen, moves, profileId }: OpeningExplorerProps) {
+  const [history, setHistory] = useState(() => indexHistory([]));
+  useEffect(() => {
+    loadGameHistory(profileId)
+      .then(games => setHistory(indexHistory(games)))
+      .catch(err => console.warn('Failed to load game history:', err));
+  }, [profileId]);
+  const opening = useMemo(() => identifyOpening(startFen, moves), [startFen, moves]);
+  const continuations = useMemo(
+    () => exploreContinuations(fen, history).slice(0, MAX_CONTINUATIONS),
+    [fen, history]
+  );
+
+  if (!opening && continuations.length === 0) return null;
+
+  return (
+    <div className="bg-zinc-900 rounded-lg p-3 border border-zinc-800 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-zinc-400 uppercase tracking-wider">Opening</span>
+        {opening && <span className="text-xs font-mono text-emerald-400">{opening.eco}</span>}
+      </div>
+      <p className="text-sm text-zinc-300">{opening?.name ?? 'Out of book'}</p>
+
+      {continuations.length > 0 && (
+        <div className="space-y-1">
+          {continuations.map(c => (
+            <div key={c.san} className="space-y-0.5" title={c.opening ? `${c.opening.eco} ${c.opening.name}` : undefined}>
+              <div className="flex items-center justify-between text-xs">
+                <span className="font-mono text-zinc-200">{c.san}</span>
+                <span className="text-zinc-500">
+                  {c.games > 0 ? `${c.wins}/${c.draws}/${c.losses}` : c.opening?.eco}
+                </span>
+              </div>
+              {c.games > 0 && (
+                <div className="flex h-1 rounded-full overflow-hidden bg-zinc-800">
+                  <div className="bg-emerald-500" style={{ width: `${c.wins / c.games * 100}%` }} />
+                  <div className="bg-zinc-500" style={{ width: `${c.draws / c.games * 100}%` }} />
+                  <div className="bg-red-500" style={{ width: `${c.losses / c.games * 100}%` }} />
+                </div>
+              )}
+            </div>
+          ))}
+          <p className="text-[10px] text-zinc-600">Your results: win / draw / loss</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+// ============================================================
+// RazorChess — Profile Picker
+// Choose who is playing, or add a new player
+// ============================================================
+
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { PlayerProfile } from '@/lib/types';
+import { loadProfiles } from '@/lib/player-profile';
+
+interface ProfilePickerProps {
+  profile: PlayerProfile | null;
+  onSelect: (profileId: string) => void;
+  onCreate: (name: string) => void;
+}
+
+export default function ProfilePicker({ profile, onSelect, onCreate }: ProfilePickerProps) {
+  const [profiles, setProfiles] = useState<PlayerProfile[]>([]);
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+
+  // Reload the list whenever the active profile changes (or is created)
+  useEffect(() => {
+    loadProfiles()
+      .then(setProfiles)
+      .catch(err => console.warn('Failed to load profiles:', err));
+  }, [profile]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onCreate(name);
+    setName('');
+    setAdding(false);
+  };
+
+  if (adding) {
+    return (
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          autoFocus
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Player name"
+          maxLength={32}
+          className="flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm text-zinc-200"
+        />
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-emerald-600 hover:bg-emerald-500 disabled:bg-zinc-700 disabled:text-zinc-400 text-white transition-colors"
+        >
+          Add
+        </button>
+        <button
+          type="button"
+          onClick={() => setAdding(false)}
+          className="px-3 py-1.5 rounded-lg text-sm text-zinc-400 hover:text-zinc-200 transition-colors"
+        >
+          Cancel
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <select
+        value={profile?.id ?? ''}
+        onChange={e => onSelect(e.target.value)}
+        disabled={!profile}
+        className="flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm text-zinc-200"
+      >
+        {profiles.map(p => (
+          <option key={p.id} value={p.id}>
+            {p.name} ({p.elo})
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => setAdding(true)}
+        className="bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded-lg text-sm text-zinc-300 transition-colors"
+      >
+        New Player
+      </button>
+    </div>
+  );
+}
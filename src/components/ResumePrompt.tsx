@@ -0,0 +1,74 @@
+// ============================================================
+// RazorChess — Resume Prompt
+// Unfinished games on the setup screen, to resume or abandon
+// ============================================================
+
+'use client';
+
+import { GameCheckpoint } from '@/lib/player-profile';
+import { getPersonalityConfig } from '@/lib/personalities';
+import { formatTimeControl } from '@/lib/clock';
+
+interface ResumePromptProps {
+  games: GameCheckpoint[];
+  disabled: boolean;
+  onResume: (gameId: string) => void;
+  onAbandon: (gameId: string) => void;
+}
+
+function timeAgo(timestamp: number): string {
+  const minutes = Math.round((Date.now() - timestamp) / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+}
+
+export default function ResumePrompt({ games, disabled, onResume, onAbandon }: ResumePromptProps) {
+  if (games.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs text-zinc-400 uppercase tracking-wider">Resume Game</h3>
+      <div className="space-y-2">
+        {games.map(({ state, savedAt }) => (
+          <div
+            key={state.id}
+            className="flex items-center justify-between gap-3 bg-zinc-900 rounded-lg px-3 py-2 border border-zinc-800"
+          >
+            <div className="min-w-0">
+              <p className="text-sm text-zinc-200 truncate">
+                vs {getPersonalityConfig(state.personality).displayName}
+                <span className="text-zinc-500"> as {state.playerColor}</span>
+              </p>
+              <p className="text-xs text-zinc-500">
+                Move {Math.floor(state.moves.length / 2) + 1}
+                {state.timeControl && <> &middot; {formatTimeControl(state.timeControl)}</>}
+                {state.rated && <> &middot; Rated</>}
+                {' '}&middot; {timeAgo(savedAt)}
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={() => onAbandon(state.id)}
+                disabled={disabled}
+                className="px-2 py-1 rounded text-xs text-zinc-400 hover:text-red-400 transition-colors"
+                title="Counts as a loss once the game is under way"
+              >
+                Abandon
+              </button>
+              <button
+                onClick={() => onResume(state.id)}
+                disabled={disabled}
+                className="px-3 py-1 rounded text-xs font-semibold bg-emerald-600 hover:bg-emerald-500 disabled:bg-zinc-700 disabled:text-zinc-400 text-white transition-colors"
+              >
+                Resume
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -8,98 +8,248 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { Chess, Square } from 'chess.js';
 import { v4 as uuid } from 'uuid';
-import { AdaptiveEngine } from '@/lib/adaptive-engine';
-import { SimpleEngine } from '@/lib/simple-engine';
+import { AdaptiveEngine, AdaptiveSnapshot } from '@/lib/adaptive-engine';
+import { OpeningBook, loadPolyglotBook } from '@/lib/opening-book';
 import { ChessEngineInterface } from '@/lib/engine-interface';
 import {
+  createEngine,
+  EngineBackend,
+  EnginePreference,
+  loadEnginePreference,
+  saveEnginePreference,
+} from '@/lib/engine-factory';
+import {
+  ClockState,
   GameMove,
   GameResult,
   GameState,
   Personality,
+  PlayerProfile,
+  PositionEval,
+  TimeControl,
 } from '@/lib/types';
 import {
+  GameCheckpoint,
+  clearActiveGame,
+  createDefaultProfile,
+  createProfile,
+  isAbortable,
   loadProfile,
-  saveProfile,
-  updateProfileFromGame,
-  saveGameHistory,
-  saveEloHistory,
+  recordFinishedGame,
+  recordInterruptedGames,
+  saveActiveGame,
+  switchProfile,
 } from '@/lib/player-profile';
 import { generatePostGameAnalysis } from '@/lib/analysis';
+import { analyzeFinishedGame, DeepAnalysisProgress, withPartialAnalysis } from '@/lib/deep-analysis';
+import { createClock, flaggedSide, pressClock, remainingMs, resumeClock, stopClock, timeoutResult } from '@/lib/clock';
+import { PgnGame, finalFen, pgnGameResult, pgnGameToMoves } from '@/lib/pgn-import';
+import { getAllPersonalities, takebackAllowance } from '@/lib/personalities';
+import { claimableDraw, gameEndResult } from '@/lib/draws';
+
+const CLOCK_TICK_MS = 100;
+const CLOCK_CHECKPOINT_MS = 5000; // how often a timed game's running clock is saved
+const ANALYSIS_CHECKPOINT_MS = 30000; // how often an ended game's checkpoint is refreshed while it is analyzed
+const DRAW_OFFER_INTERVAL = 10;   // plies between the player's draw offers
+
+// The game as it stood before one of the player's moves
+interface TakebackPoint {
+  state: GameState;
+  adaptive: AdaptiveSnapshot | null;
+}
+
+function createGameState(
+  playerColor: 'white' | 'black',
+  personality: Personality,
+  timeControl: TimeControl | null,
+  startFen: string,
+  playerProfile: PlayerProfile,
+  rated: boolean = false
+): GameState {
+  const toMove = startFen.split(' ')[1] === 'b' ? 'black' : 'white';
+  return {
+    id: uuid(),
+    playerColor,
+    currentFen: startFen,
+    moves: [],
+    playerProfile,
+    personality,
+    adaptiveConfig: {
+      targetEval: 0,
+      adaptiveStrength: 0.6,
+      humanPlausibility: 0.7,
+      complexityBias: 0.4,
+      mistakeRate: 0.05,
+    },
+    startFen,
+    gamePhase: 'opening',
+    tensionScore: 5,
+    rollingAccuracy: 0.5,
+    momentumStreak: 0,
+    result: null,
+    timeControl,
+    clock: timeControl ? createClock(timeControl, Date.now(), toMove) : null,
+    rated,
+    takebacks: 0,
+    startTime: Date.now(),
+    isThinking: false,
+  };
+}
+
+// Remaining time for the side that just moved, as recorded on its GameMove
+// Re-save an ended game's checkpoint every so often while it is analyzed,
+// so another tab doesn't record it as left behind. Returns the stop.
+function keepCheckpointFresh(checkpoint: GameCheckpoint): () => void {
+  const timer = setInterval(() => {
+    saveActiveGame({ ...checkpoint, savedAt: Date.now() })
+      .catch(err => console.warn('Failed to checkpoint game:', err));
+  }, ANALYSIS_CHECKPOINT_MS);
+  return () => clearInterval(timer);
+}
+
+function clockAfterMove(clock: ClockState | null, side: 'white' | 'black'): number | undefined {
+  if (!clock) return undefined;
+  return side === 'white' ? clock.whiteMs : clock.blackMs;
+}
 
 export function useChessGame() {
   const [chess] = useState(() => new Chess());
   const [fen, setFen] = useState(chess.fen());
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [isEngineReady, setIsEngineReady] = useState(false);
+  const [engineBackend, setEngineBackend] = useState<EngineBackend | null>(null);
+  const [enginePreference, setEnginePreferenceState] = useState<EnginePreference>(loadEnginePreference);
   const [isThinking, setIsThinking] = useState(false);
   const [lastComment, setLastComment] = useState('');
   const [moveHistory, setMoveHistory] = useState<GameMove[]>([]);
   const [evalBar, setEvalBar] = useState(0);
+  const [liveEval, setLiveEval] = useState<PositionEval | null>(null);
   const [gameOver, setGameOver] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<DeepAnalysisProgress | null>(null);
+  const [clockNow, setClockNow] = useState(() => Date.now());
+  const [lastDrawOfferPly, setLastDrawOfferPly] = useState<number | null>(null);
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  // Mirrors takebackPointsRef.current.length so the UI re-renders with it
+  const [takebackPointCount, setTakebackPointCount] = useState(0);
 
   const engineRef = useRef<ChessEngineInterface | null>(null);
   const adaptiveRef = useRef<AdaptiveEngine | null>(null);
+  const polyglotBookRef = useRef<OpeningBook | null>(null);
+  const takebackPointsRef = useRef<TakebackPoint[]>([]);
+  const analysisAbortRef = useRef<AbortController | null>(null);
   const moveStartTime = useRef<number>(Date.now());
+  // Id of the game still in progress; an engine move that finishes after the
+  // game ended (flag-fall, resignation) is dropped
+  const activeGameRef = useRef<string | null>(null);
 
-  // Initialize engine (SimpleEngine works immediately, no WASM needed)
+  // Initialize engine: Stockfish if its WASM build is served, SimpleEngine otherwise
   useEffect(() => {
-    const engine = new SimpleEngine(4);
-    engineRef.current = engine;
-    setIsEngineReady(true);
+    let cancelled = false;
+    let created: ChessEngineInterface | null = null;
+
+    createEngine(enginePreference).then(({ engine, backend }) => {
+      if (cancelled) {
+        engine.destroy();
+        return;
+      }
+      created = engine;
+      engineRef.current = engine;
+      setEngineBackend(backend);
+      setIsEngineReady(true);
+    });
+
     return () => {
-      engineRef.current?.destroy();
+      cancelled = true;
+      analysisAbortRef.current?.abort();
+      created?.destroy();
+      if (engineRef.current === created) engineRef.current = null;
     };
+  }, [enginePreference]);
+
+  // The stored profile, read once the database is open and any game left
+  // unrecorded last time has been recorded
+  useEffect(() => {
+    recordInterruptedGames()
+      .catch(err => console.warn('Failed to record interrupted games:', err))
+      .then(() => loadProfile())
+      .then(setProfile)
+      .catch(err => {
+        console.error('Failed to load profile:', err);
+        setProfile(createDefaultProfile());
+      });
   }, []);
 
-  // Start a new game
+  // Change who is playing. Games in progress keep the profile they started with.
+  const selectProfile = useCallback((profileId: string) => {
+    switchProfile(profileId)
+      .then(next => { if (next) setProfile(next); })
+      .catch(err => console.error('Failed to switch profile:', err));
+  }, []);
+
+  const addProfile = useCallback((name: string) => {
+    createProfile(name)
+      .then(setProfile)
+      .catch(err => console.error('Failed to create profile:', err));
+  }, []);
+
+  // Optional Polyglot book under public/books, used past the bundled repertoires
+  useEffect(() => {
+    loadPolyglotBook().then(book => {
+      polyglotBookRef.current = book;
+    });
+  }, []);
+
+  // Switch engine backend (takes effect for the next game)
+  const setEnginePreference = useCallback((preference: EnginePreference) => {
+    saveEnginePreference(preference);
+    setIsEngineReady(false);
+    setEngineBackend(null);
+    setEnginePreferenceState(preference);
+  }, []);
+
+  // Start a new game, from the initial position or any valid FEN
   const startGame = useCallback((
     playerColor: 'white' | 'black' = 'white',
-    personality: Personality = 'mentor'
+    personality: Personality = 'mentor',
+    timeControl: TimeControl | null = null,
+    startFen?: string,
+    rated: boolean = false
   ) => {
-    chess.reset();
+    // A still-running review of the previous game is finalized with what it has
+    analysisAbortRef.current?.abort();
+
+    if (startFen) chess.load(startFen);
+    else chess.reset();
     setFen(chess.fen());
     setMoveHistory([]);
     setEvalBar(0);
     setGameOver(false);
     setLastComment('');
+    setLastDrawOfferPly(null);
     moveStartTime.current = Date.now();
+    takebackPointsRef.current = [];
+    setTakebackPointCount(0);
 
-    const profile = loadProfile();
-
-    const newGameState: GameState = {
-      id: uuid(),
-      playerColor,
-      currentFen: chess.fen(),
-      moves: [],
-      playerProfile: profile,
-      personality,
-      adaptiveConfig: {
-        targetEval: 0,
-        adaptiveStrength: 0.6,
-        humanPlausibility: 0.7,
-        complexityBias: 0.4,
-        mistakeRate: 0.05,
-      },
-      gamePhase: 'opening',
-      tensionScore: 5,
-      rollingAccuracy: 0.5,
-      momentumStreak: 0,
-      result: null,
-      startTime: Date.now(),
-      isThinking: false,
-    };
-
-    setGameState(newGameState);
+    const newGameState = createGameState(
+      playerColor, personality, timeControl, chess.fen(), profile ?? createDefaultProfile(), rated
+    );
 
     if (engineRef.current) {
-      adaptiveRef.current = new AdaptiveEngine(engineRef.current, personality);
+      // Only place the hash gets cleared; searches within a game share it
+      engineRef.current.newGame().catch(err => console.warn('Engine newGame failed:', err));
+      adaptiveRef.current = new AdaptiveEngine(engineRef.current, personality, polyglotBookRef.current);
+      newGameState.gamePhase = adaptiveRef.current.detectGamePhase(newGameState.startFen);
     }
 
-    // If player is black, engine makes the first move
-    if (playerColor === 'black') {
+    activeGameRef.current = newGameState.id;
+    setGameState(newGameState);
+
+    // Engine moves first when it has the move in the starting position
+    const engineToMove = (chess.turn() === 'w') !== (playerColor === 'white');
+    if (engineToMove) {
       setTimeout(() => makeEngineMove(newGameState), 500);
     }
-  }, [chess]);
+  }, [chess, profile]);
 
   // Handle player move
   const makePlayerMove = useCallback(async (from: string, to: string, promotion?: string) => {
@@ -110,12 +260,26 @@ export function useChessGame() {
                          (turn === 'b' && gameState.playerColor === 'black');
     if (!isPlayerTurn) return false;
 
-    const thinkTime = Date.now() - moveStartTime.current;
+    const now = Date.now();
+    const thinkTime = now - moveStartTime.current;
+
+    const { clock, timeControl } = gameState;
+    if (clock && timeControl) {
+      const flagged = flaggedSide(clock, timeControl, now);
+      if (flagged) {
+        endOnTime(gameState, flagged);
+        return false;
+      }
+    }
 
     try {
+      const takebackPoint = { state: gameState, adaptive: adaptiveRef.current?.snapshot() ?? null };
       const result = chess.move({ from: from as Square, to: to as Square, promotion });
       if (!result) return false;
+      takebackPointsRef.current.push(takebackPoint);
+      setTakebackPointCount(takebackPointsRef.current.length);
 
+      const clockAfter = clock && timeControl ? pressClock(clock, timeControl, now) : clock;
       const fenAfter = chess.fen();
       setFen(fenAfter);
 
@@ -127,6 +291,7 @@ export function useChessGame() {
         fen: fenAfter,
         evaluation: 0,
         bestEval: 0,
+        bestLine: [],
         centipawnLoss: 0,
         isBlunder: false,
         isMistake: false,
@@ -134,11 +299,12 @@ export function useChessGame() {
         isBrilliant: false,
         timestamp: Date.now(),
         thinkTime,
+        clockMs: clockAfterMove(clockAfter, gameState.playerColor),
         isPlayerMove: true,
       };
 
       // Skip deep analysis during play — it called evaluate() twice and
-      // added latency.  We defer full analysis to post-game instead.
+      // added latency.  Full analysis runs post-game in runDeepAnalysis instead.
       // Just update adaptive engine's rolling accuracy with a rough estimate.
       if (adaptiveRef.current) {
         adaptiveRef.current.updatePlayerAccuracy(gameMove);
@@ -154,14 +320,16 @@ export function useChessGame() {
         moves: newMoves,
         gamePhase: newGamePhase,
         tensionScore,
+        clock: clockAfter,
       };
 
       setGameState(updatedState);
       setMoveHistory(newMoves);
       setEvalBar(gameMove.evaluation);
 
-      if (chess.isGameOver()) {
-        handleGameEnd(updatedState);
+      const ended = gameEndResult(chess);
+      if (ended) {
+        finishGame(updatedState, ended);
         return true;
       }
 
@@ -176,6 +344,18 @@ export function useChessGame() {
 
   // Engine makes a move
   const makeEngineMove = useCallback(async (currentState: GameState) => {
+    if (activeGameRef.current !== currentState.id) return;
+    // The player took the move back before the engine got to it
+    if (chess.fen() !== currentState.currentFen) return;
+
+    // A repetition or fifty-move draw is claimed unless the engine stands better
+    const claim = claimableDraw(chess);
+    const lastEngineMove = [...currentState.moves].reverse().find(m => !m.isPlayerMove);
+    const engineEval = (lastEngineMove?.evaluation ?? 0) * (currentState.playerColor === 'white' ? -1 : 1);
+    if (claim && engineEval <= 0) {
+      finishGame(currentState, { type: 'draw', reason: claim });
+      return;
+    }
     if (!adaptiveRef.current) {
       const moves = chess.moves();
       if (moves.length === 0) return;
@@ -186,6 +366,7 @@ export function useChessGame() {
     }
 
     setIsThinking(true);
+    const turnStart = currentState.clock?.turnStartedAt ?? Date.now();
 
     // Yield to the event loop so React can paint the "Thinking…" indicator
     await new Promise(r => setTimeout(r, 0));
@@ -194,9 +375,29 @@ export function useChessGame() {
       const result = await adaptiveRef.current.selectMove(
         chess.fen(),
         currentState,
-        currentState.playerProfile
+        currentState.playerProfile,
+        partial => {
+          setLiveEval(partial);
+          setEvalBar(partial.evaluation);
+        }
       );
 
+      // Use the rest of the planned time so the clock runs like a human's would
+      const waitMs = result.thinkTime - (Date.now() - turnStart);
+      if (waitMs > 0) await new Promise(r => setTimeout(r, waitMs));
+      if (activeGameRef.current !== currentState.id) return;
+
+      const now = Date.now();
+      const { clock, timeControl } = currentState;
+      if (clock && timeControl) {
+        const flagged = flaggedSide(clock, timeControl, now);
+        if (flagged) {
+          endOnTime(currentState, flagged);
+          return;
+        }
+      }
+      const clockAfter = clock && timeControl ? pressClock(clock, timeControl, now) : clock;
+
       const from = result.move.slice(0, 2) as Square;
       const to = result.move.slice(2, 4) as Square;
       const promotion = result.move.length > 4 ? result.move[4] : undefined;
@@ -219,14 +420,17 @@ export function useChessGame() {
         uci: result.move,
         fen: fenAfter,
         evaluation: result.evaluation,
-        bestEval: result.evaluation,
-        centipawnLoss: 0,
+        bestEval: result.bestEvaluation,
+        bestLine: result.bestLine,
+        centipawnLoss: result.centipawnLoss,
         isBlunder: false,
         isMistake: false,
         isInaccuracy: false,
         isBrilliant: false,
         timestamp: Date.now(),
-        thinkTime: 0,
+        thinkTime: now - turnStart,
+        clockMs: clockAfterMove(clockAfter, currentState.playerColor === 'white' ? 'black' : 'white'),
+        thinking: result.thinking,
         isPlayerMove: false,
       };
 
@@ -239,6 +443,7 @@ export function useChessGame() {
         moves: newMoves,
         tensionScore,
         gamePhase: adaptiveRef.current.detectGamePhase(fenAfter),
+        clock: clockAfter,
       };
 
       setGameState(updatedState);
@@ -246,8 +451,9 @@ export function useChessGame() {
       setEvalBar(result.evaluation);
       setLastComment(result.thinking);
 
-      if (chess.isGameOver()) {
-        handleGameEnd(updatedState);
+      const ended = gameEndResult(chess);
+      if (ended) {
+        finishGame(updatedState, ended);
       }
 
       moveStartTime.current = Date.now();
@@ -261,63 +467,344 @@ export function useChessGame() {
       }
     } finally {
       setIsThinking(false);
+      setLiveEval(null);
     }
   }, [chess]);
 
-  // Handle game ending
-  const handleGameEnd = useCallback((finalState: GameState) => {
-    let result: GameResult;
-
-    if (chess.isCheckmate()) {
-      const winner = chess.turn() === 'w' ? 'black' : 'white';
-      result = { type: 'checkmate', winner: winner as 'white' | 'black' };
-    } else if (chess.isStalemate()) {
-      result = { type: 'stalemate' };
-    } else if (chess.isDraw()) {
-      result = { type: 'draw', reason: 'repetition' };
-    } else {
-      result = { type: 'draw', reason: 'agreement' };
+  // Re-analyze every player move before the profile and ELO see the game.
+  // On cancellation the game is finalized with the moves analyzed so far;
+  // the profile only learns from those.
+  const runDeepAnalysis = useCallback(async (endState: GameState): Promise<GameState> => {
+    const adaptive = adaptiveRef.current;
+    if (!adaptive) return endState;
+
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+
+    let partialMoves = endState.moves;
+    try {
+      const analyzedState = await analyzeFinishedGame(endState, adaptive, {
+        signal: controller.signal,
+        onProgress: progress => {
+          partialMoves = progress.moves;
+          setAnalysisProgress(progress);
+        },
+      });
+      setGameState(current => current?.id === analyzedState.id ? analyzedState : current);
+      setMoveHistory(current => current === endState.moves ? analyzedState.moves : current);
+      return analyzedState;
+    } catch (err) {
+      if (!controller.signal.aborted) console.error('Post-game analysis failed:', err);
+      return withPartialAnalysis(endState, partialMoves, adaptive);
+    } finally {
+      if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
+      setAnalysisProgress(null);
     }
+  }, []);
+
+  // Skip the rest of the post-game analysis
+  const cancelAnalysis = useCallback(() => {
+    analysisAbortRef.current?.abort();
+  }, []);
 
-    const endState: GameState = { ...finalState, result };
+  // Persist an analyzed game and pick up the profile it updated. The
+  // game's checkpoint goes only once the game is safely recorded.
+  const saveFinishedGame = useCallback((state: GameState) => {
+    return recordFinishedGame(state)
+      // The player may have switched profiles while the game was analyzed
+      .then(recorded => setProfile(current => current?.id === recorded.profile.id ? recorded.profile : current))
+      .then(() => clearActiveGame(state.id))
+      .catch(err => console.error('Failed to save game:', err));
+  }, []);
+
+  // Record the result, then analyze and persist the game. Every way a game
+  // can end comes through here: mate, resignation, flag-fall, draws, aborts
+  // and abandonment.
+  const finishGame = useCallback((finalState: GameState, result: GameResult) => {
+    activeGameRef.current = null;
+    const { clock, timeControl } = finalState;
+    const endState: GameState = {
+      ...finalState,
+      result,
+      clock: clock && timeControl ? stopClock(clock, timeControl) : clock,
+    };
     setGameState(endState);
     setGameOver(true);
 
-    const profile = loadProfile();
-    const { profile: updatedProfile } = updateProfileFromGame(profile, endState);
-    saveProfile(updatedProfile);
-
-    saveGameHistory(endState);
-    let resultStr = 'draw';
-    if ('winner' in result) {
-      resultStr = result.winner === endState.playerColor ? 'win' : 'loss';
+    // An aborted game isn't analyzed or recorded
+    if (result.type === 'aborted') {
+      clearActiveGame(finalState.id).catch(err => console.warn('Failed to clear checkpoint:', err));
+      return;
     }
-
-    saveEloHistory({
-      timestamp: Date.now(),
-      elo: updatedProfile.elo,
-      gameId: endState.id,
-      opponent: endState.personality,
-      result: resultStr,
-    });
-  }, [chess]);
+    // Checkpoint the result first: if the page goes away during the
+    // analysis, the game is recorded on the next load
+    const checkpoint = { state: endState, adaptive: adaptiveRef.current?.snapshot() ?? null, savedAt: Date.now() };
+    const stopRefresh = keepCheckpointFresh(checkpoint);
+    saveActiveGame(checkpoint)
+      .catch(err => console.warn('Failed to checkpoint game:', err))
+      .then(() => runDeepAnalysis(endState))
+      .then(analyzed => {
+        stopRefresh();
+        return saveFinishedGame(analyzed);
+      });
+  }, [runDeepAnalysis, saveFinishedGame]);
+
+  // A flag fell
+  const endOnTime = useCallback((state: GameState, flagged: 'white' | 'black') => {
+    finishGame(state, timeoutResult(state.currentFen, flagged));
+  }, [finishGame]);
+
+  // Tick the clocks for display and catch flag-fall between moves
+  useEffect(() => {
+    if (!gameState?.clock?.running || !gameState.timeControl || gameOver) return;
+    const { clock, timeControl } = gameState;
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      setClockNow(now);
+      const flagged = flaggedSide(clock, timeControl, now);
+      if (flagged) {
+        clearInterval(interval);
+        endOnTime(gameState, flagged);
+      }
+    }, CLOCK_TICK_MS);
+    return () => clearInterval(interval);
+  }, [gameState, gameOver, endOnTime]);
+
+  // Claim a threefold repetition or fifty-move draw on the player's turn
+  const claimDraw = useCallback(() => {
+    if (!gameState || gameOver || isThinking) return;
+    const playerToMove = (chess.turn() === 'w') === (gameState.playerColor === 'white');
+    const reason = claimableDraw(chess);
+    if (playerToMove && reason) finishGame(gameState, { type: 'draw', reason });
+  }, [chess, gameState, gameOver, isThinking, finishGame]);
+
+  // Offer a draw; the engine weighs it while the player's clock runs
+  const offerDraw = useCallback(async () => {
+    const adaptive = adaptiveRef.current;
+    if (!gameState || gameOver || isThinking || !adaptive) return;
+    const ply = gameState.moves.length;
+    if (lastDrawOfferPly !== null && ply - lastDrawOfferPly < DRAW_OFFER_INTERVAL) return;
+
+    setLastDrawOfferPly(ply);
+    setIsThinking(true);
+    try {
+      const { accepted, reply } = await adaptive.considerDrawOffer(chess.fen(), gameState);
+      if (activeGameRef.current !== gameState.id) return;
+      setLastComment(reply);
+      if (accepted) finishGame(gameState, { type: 'draw', reason: 'agreement' });
+    } catch (err) {
+      console.error('Draw offer failed:', err);
+    } finally {
+      setIsThinking(false);
+    }
+  }, [chess, gameState, gameOver, isThinking, lastDrawOfferPly, finishGame]);
 
   // Resign
   const resign = useCallback(() => {
     if (!gameState || gameOver) return;
     const winner = gameState.playerColor === 'white' ? 'black' : 'white';
+    finishGame(gameState, { type: 'resignation', winner });
+  }, [gameState, gameOver, finishGame]);
+
+  // Call the game off before it counts
+  const abort = useCallback(() => {
+    if (!gameState || gameOver || !isAbortable(gameState)) return;
+    finishGame(gameState, { type: 'aborted' });
+  }, [gameState, gameOver, finishGame]);
+
+  // Checkpoint the game in progress after every move, so a reload or a
+  // closed tab can pick it up again
+  useEffect(() => {
+    if (!gameState || gameOver || activeGameRef.current !== gameState.id) return;
+    saveActiveGame({ state: gameState, adaptive: adaptiveRef.current?.snapshot() ?? null, savedAt: Date.now() })
+      .catch(err => console.warn('Failed to checkpoint game:', err));
+  }, [gameState, gameOver]);
+
+  // A timed game's clock runs between moves too, so its checkpoint is also
+  // refreshed every few seconds and when the page is hidden. Resuming
+  // charges the turn up to the last refresh.
+  useEffect(() => {
+    if (!gameState?.clock || gameOver || activeGameRef.current !== gameState.id) return;
+    const refresh = () => {
+      if (activeGameRef.current !== gameState.id) return;
+      saveActiveGame({ state: gameState, adaptive: adaptiveRef.current?.snapshot() ?? null, savedAt: Date.now() })
+        .catch(err => console.warn('Failed to checkpoint game:', err));
+    };
+    const onHide = () => {
+      if (document.visibilityState === 'hidden') refresh();
+    };
+    const timer = setInterval(refresh, CLOCK_CHECKPOINT_MS);
+    window.addEventListener('pagehide', refresh);
+    document.addEventListener('visibilitychange', onHide);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('pagehide', refresh);
+      document.removeEventListener('visibilitychange', onHide);
+    };
+  }, [gameState, gameOver]);
+
+  // Pick up an unfinished game where it was left
+  const resumeGame = useCallback((checkpoint: GameCheckpoint) => {
+    if (!engineRef.current) return false;
+    analysisAbortRef.current?.abort();
+
+    const { state, adaptive, savedAt } = checkpoint;
+    // Replaying the moves restores the history the repetition rules need
+    try {
+      chess.load(state.startFen);
+      for (const move of state.moves) {
+        chess.move({ from: move.uci.slice(0, 2), to: move.uci.slice(2, 4), promotion: move.uci[4] });
+      }
+    } catch {
+      chess.load(state.currentFen);
+    }
+
+    const now = Date.now();
+    const resumed: GameState = {
+      ...state,
+      // Time away from the board isn't charged to either clock, but the
+      // time already spent on this turn stays spent
+      clock: state.clock ? resumeClock(state.clock, savedAt, now) : null,
+      isThinking: false,
+    };
+    const lastEngineMove = [...state.moves].reverse().find(m => !m.isPlayerMove);
+
+    setFen(chess.fen());
+    setMoveHistory(state.moves);
+    setEvalBar(state.moves[state.moves.length - 1]?.evaluation ?? 0);
+    setGameOver(false);
+    setLastComment(lastEngineMove?.thinking ?? '');
+    setLastDrawOfferPly(null);
+    moveStartTime.current = now;
+    takebackPointsRef.current = [];
+    setTakebackPointCount(0);
+
+    engineRef.current.newGame().catch(err => console.warn('Engine newGame failed:', err));
+    adaptiveRef.current = new AdaptiveEngine(engineRef.current, state.personality, polyglotBookRef.current);
+    if (adaptive) adaptiveRef.current.restore(adaptive);
+
+    activeGameRef.current = resumed.id;
+    setGameState(resumed);
+
+    const engineToMove = (chess.turn() === 'w') !== (state.playerColor === 'white');
+    if (engineToMove) {
+      setTimeout(() => makeEngineMove(resumed), 500);
+    }
+    return true;
+  }, [chess, makeEngineMove]);
+
+  // Give up an unfinished game: lost by abandonment, or aborted if it
+  // hadn't got going. It is analyzed and recorded like any other game.
+  const abandonGame = useCallback((checkpoint: GameCheckpoint) => {
+    if (isAbortable(checkpoint.state)) {
+      clearActiveGame(checkpoint.state.id).catch(err => console.warn('Failed to clear checkpoint:', err));
+      return;
+    }
+
+    const { state } = checkpoint;
+    const { clock, timeControl } = state;
     const endState: GameState = {
-      ...gameState,
-      result: { type: 'resignation', winner: winner as 'white' | 'black' },
+      ...state,
+      result: { type: 'abandonment', winner: state.playerColor === 'white' ? 'black' : 'white' },
+      clock: clock && timeControl ? stopClock(clock, timeControl, clock.turnStartedAt) : clock,
     };
-    setGameState(endState);
-    setGameOver(true);
+    // As in finishGame, the result is checkpointed until it is recorded
+    const ended = { ...checkpoint, state: endState, savedAt: Date.now() };
+    const checkpointed = saveActiveGame(ended)
+      .catch(err => console.warn('Failed to checkpoint game:', err));
+    const engine = engineRef.current;
+    if (!engine) {
+      checkpointed.then(() => saveFinishedGame(endState));
+      return;
+    }
 
-    const profile = loadProfile();
-    const { profile: updatedProfile } = updateProfileFromGame(profile, endState);
-    saveProfile(updatedProfile);
-    saveGameHistory(endState);
-  }, [gameState, gameOver]);
+    const stopRefresh = keepCheckpointFresh(ended);
+    const controller = new AbortController();
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = controller;
+    const adaptive = new AdaptiveEngine(engine, state.personality);
+    let partialMoves = endState.moves;
+    checkpointed
+      .then(() => analyzeFinishedGame(endState, adaptive, {
+        signal: controller.signal,
+        onProgress: progress => { partialMoves = progress.moves; },
+      }))
+      // Superseded by a new game's review: keep what was analyzed
+      .catch(() => withPartialAnalysis(endState, partialMoves, adaptive))
+      .then(analyzed => {
+        stopRefresh();
+        return saveFinishedGame(analyzed);
+      })
+      .finally(() => {
+        if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
+      });
+  }, [saveFinishedGame]);
+
+  // Take back the player's last move, and the engine's reply if it has
+  // made one. Everything the move changed goes back with it.
+  const takeBack = useCallback(() => {
+    if (!gameState || gameOver || isThinking) return false;
+    if (gameState.takebacks >= takebackAllowance(gameState.personality, gameState.rated)) return false;
+    const point = takebackPointsRef.current.pop();
+    if (!point) return false;
+    setTakebackPointCount(takebackPointsRef.current.length);
+
+    for (let ply = gameState.moves.length; ply > point.state.moves.length; ply--) chess.undo();
+    if (point.adaptive) adaptiveRef.current?.restore(point.adaptive);
+
+    const { clock } = point.state;
+    const restored: GameState = {
+      ...point.state,
+      takebacks: gameState.takebacks + 1,
+      // The player's clock runs again from now
+      clock: clock ? { ...clock, turnStartedAt: Date.now() } : clock,
+    };
+    setFen(chess.fen());
+    setGameState(restored);
+    setMoveHistory(restored.moves);
+    setEvalBar(restored.moves[restored.moves.length - 1]?.evaluation ?? 0);
+    setLastComment('');
+    moveStartTime.current = Date.now();
+    return true;
+  }, [chess, gameState, gameOver, isThinking]);
+
+  // Load an outside game for review: the post-game analysis runs on it as if
+  // it had just been played, but nothing touches the profile or history
+  const reviewImportedGame = useCallback((game: PgnGame, playerColor: 'white' | 'black') => {
+    analysisAbortRef.current?.abort();
+    activeGameRef.current = null;
+    takebackPointsRef.current = [];
+    setTakebackPointCount(0);
+
+    const tagged = game.tags.RazorPersonality;
+    const personality = getAllPersonalities().find(p => p.name === tagged)?.name ?? 'mentor';
+    const moves = pgnGameToMoves(game, playerColor);
+    const fenAfter = finalFen(game);
+
+    chess.load(fenAfter);
+    setFen(fenAfter);
+    setLastComment('');
+
+    const importedState: GameState = {
+      ...createGameState(playerColor, personality, null, game.startFen, profile ?? createDefaultProfile()),
+      currentFen: fenAfter,
+      moves,
+      result: pgnGameResult(game),
+    };
+    if (engineRef.current) {
+      adaptiveRef.current = new AdaptiveEngine(engineRef.current, personality);
+      importedState.gamePhase = adaptiveRef.current.detectGamePhase(fenAfter);
+      importedState.tensionScore = adaptiveRef.current.calculateTension(moves);
+    }
+
+    setGameState(importedState);
+    setMoveHistory(moves);
+    setEvalBar(moves[moves.length - 1]?.evaluation ?? 0);
+    setGameOver(true);
+    runDeepAnalysis(importedState);
+  }, [chess, profile, runDeepAnalysis]);
 
   // Get legal moves for a square
   const getLegalMoves = useCallback((square: string): string[] => {
@@ -329,24 +816,70 @@ export function useChessGame() {
     }
   }, [chess]);
 
+  // Live remaining times for display
+  const clockTimes = gameState?.clock && gameState.timeControl
+    ? {
+        white: remainingMs(gameState.clock, gameState.timeControl, 'white', clockNow),
+        black: remainingMs(gameState.clock, gameState.timeControl, 'black', clockNow),
+      }
+    : null;
+
+  const playerToMove = !!gameState && (chess.turn() === 'w') === (gameState.playerColor === 'white');
+  // A draw the player could claim right now
+  const drawClaim = gameState && !gameOver && !isThinking && playerToMove ? claimableDraw(chess) : null;
+  const canOfferDraw = !!gameState && !gameOver && !isThinking &&
+    (lastDrawOfferPly === null || gameState.moves.length - lastDrawOfferPly >= DRAW_OFFER_INTERVAL);
+
+  const canAbort = !!gameState && !gameOver && isAbortable(gameState);
+
+  // Takebacks still available this game (Infinity when unlimited)
+  const takebacksLeft = gameState
+    ? takebackAllowance(gameState.personality, gameState.rated) - gameState.takebacks
+    : 0;
+  const canTakeBack = !gameOver && !isThinking && takebacksLeft > 0 && takebackPointCount > 0;
+
   // Get post-game analysis
   const getAnalysis = useCallback(() => {
     if (!gameState) return null;
-    return generatePostGameAnalysis(gameState);
-  }, [gameState]);
+    // Judge against the latest profile, unless the player has switched since
+    const current = profile?.id === gameState.playerProfile.id ? profile : undefined;
+    return generatePostGameAnalysis(gameState, current);
+  }, [gameState, profile]);
 
   return {
     fen,
     gameState,
+    profile,
     isEngineReady,
+    engineBackend,
+    enginePreference,
     isThinking,
     lastComment,
     moveHistory,
     evalBar,
+    liveEval,
     gameOver,
+    analysisProgress,
+    clockTimes,
+    takebacksLeft,
+    canTakeBack,
+    drawClaim,
+    canOfferDraw,
+    canAbort,
     startGame,
+    reviewImportedGame,
     makePlayerMove,
+    takeBack,
+    claimDraw,
+    offerDraw,
     resign,
+    abort,
+    resumeGame,
+    abandonGame,
+    selectProfile,
+    addProfile,
+    cancelAnalysis,
+    setEnginePreference,
     getLegalMoves,
     getAnalysis,
   };
@@ -0,0 +1,211 @@
+// ============================================================
+// RazorChess — Accuracy & Move Classification
+// Win percentage from centipawns, Lichess-style move and game
+// accuracy, and the class every analyzed move is given
+// ============================================================
+
+import { Chess } from 'chess.js';
+import { GameMove, MoveClass } from './types';
+import { lookupOpening } from './eco';
+import { sacrificedMaterial } from './sacrifice';
+
+const MAX_EVAL = 1000;              // mate scores count as ±10 pawns
+const WIN_SLOPE = 0.00368208;       // Lichess's fit of win rate to centipawns
+
+// Drops in the mover's win percentage that mark each class
+const BEST_LIMIT = 1;
+const EXCELLENT_LIMIT = 2.5;
+const INACCURACY_DROP = 5;
+const MISTAKE_DROP = 10;
+const BLUNDER_DROP = 15;
+// An opponent error that hands over this much is a chance that can be missed
+const MISS_OPPORTUNITY = 10;
+// A sacrifice is brilliant only if it gives up at least the exchange, is
+// best or close to it, and the mover wasn't already winning anyway
+const MIN_SACRIFICE = 2;
+const WINNING = 85;
+// The best move is the only move when the next best gives away this much
+const ONLY_MOVE_GAP = 20;
+
+export const MOVE_CLASS_LABELS: Record<MoveClass, string> = {
+  brilliant: 'Brilliant',
+  great: 'Great',
+  best: 'Best',
+  excellent: 'Excellent',
+  good: 'Good',
+  book: 'Book',
+  forced: 'Forced',
+  inaccuracy: 'Inaccuracy',
+  mistake: 'Mistake',
+  miss: 'Miss',
+  blunder: 'Blunder',
+};
+
+export const MOVE_CLASS_SYMBOLS: Partial<Record<MoveClass, string>> = {
+  brilliant: '!!',
+  great: '!',
+  inaccuracy: '?!',
+  mistake: '?',
+  miss: '?',
+  blunder: '??',
+};
+
+// White's chance of winning (0-100) in a position scored `evaluation`
+// centipawns, white-relative
+export function winPercent(evaluation: number): number {
+  const cp = Math.max(-MAX_EVAL, Math.min(MAX_EVAL, evaluation));
+  return 50 + 50 * (2 / (1 + Math.exp(-WIN_SLOPE * cp)) - 1);
+}
+
+function moverWinPercent(evaluation: number, moverIsWhite: boolean): number {
+  const win = winPercent(evaluation);
+  return moverIsWhite ? win : 100 - win;
+}
+
+// The side that played a move, read off the position it left
+function movedWhite(move: Pick<GameMove, 'fen'>): boolean {
+  return move.fen.split(' ')[1] === 'b';
+}
+
+// Accuracy of one move (0-100) from how much of the mover's win percentage
+// it gave away. Lichess's curve, including its one-point allowance for
+// imperfect analysis.
+export function moveAccuracy(winBefore: number, winAfter: number): number {
+  const drop = Math.max(0, winBefore - winAfter);
+  const raw = 103.1668100711649 * Math.exp(-0.04354415386753951 * drop) - 3.166924740191411 + 1;
+  return Math.max(0, Math.min(100, raw));
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  return Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length);
+}
+
+// Whether a move's evals are real: engine moves carry their search's, and
+// player moves theirs once the post-game analysis has judged them. Moves
+// recorded live (e.g. a review cancelled part-way) have placeholder zeros.
+export function isAnalyzed(move: GameMove): boolean {
+  return !move.isPlayerMove || move.classification !== undefined;
+}
+
+// Accuracy over one side's analyzed moves in a game, or null if it has none: the
+// mean of a volatility-weighted average (moves in sharp stretches count
+// more) and a harmonic mean (one bad blunder isn't averaged away)
+export function gameAccuracy(allMoves: GameMove[], playerMoves: boolean): number | null {
+  const moves = allMoves.filter(isAnalyzed);
+  if (!moves.some(m => m.isPlayerMove === playerMoves)) return null;
+
+  const wins = [winPercent(moves[0].bestEval), ...moves.map(m => winPercent(m.evaluation))];
+  const windowSize = Math.max(2, Math.min(8, Math.floor(moves.length / 10)));
+
+  let weighted = 0;
+  let totalWeight = 0;
+  let inverseSum = 0;
+  let count = 0;
+  moves.forEach((move, i) => {
+    if (move.isPlayerMove !== playerMoves) return;
+    const start = Math.max(0, Math.min(i + 2 - windowSize, wins.length - windowSize));
+    const weight = Math.max(0.5, Math.min(12, standardDeviation(wins.slice(start, start + windowSize))));
+    const white = movedWhite(move);
+    const accuracy = move.accuracy ??
+      moveAccuracy(moverWinPercent(move.bestEval, white), moverWinPercent(move.evaluation, white));
+    weighted += accuracy * weight;
+    totalWeight += weight;
+    inverseSum += 1 / Math.max(accuracy, 1);
+    count++;
+  });
+
+  return (weighted / totalWeight + count / inverseSum) / 2;
+}
+
+export interface MoveContext {
+  inBook?: boolean;             // every position so far, this one included, is in the ECO book
+  opportunity?: number;         // win percentage the opponent's last move handed over
+  previousWin?: number;         // mover's win percentage after their previous move
+}
+
+// A sound sacrifice: material the opponent can simply take, given up with
+// a move that keeps the mover's chances, from a position not already won
+function isBrilliancy(move: GameMove, fenBefore: string, winBefore: number, drop: number): boolean {
+  return drop < EXCELLENT_LIMIT && winBefore < WINNING &&
+    sacrificedMaterial(fenBefore, move.uci) >= MIN_SACRIFICE;
+}
+
+// The engine's top move, played where every alternative loses badly
+function isOnlyMove(move: GameMove, isTopMove: boolean, winBefore: number, white: boolean): boolean {
+  if (!isTopMove || move.secondBestEval === undefined) return false;
+  return winBefore - moverWinPercent(move.secondBestEval, white) >= ONLY_MOVE_GAP;
+}
+
+// Judge an analyzed move: its class, accuracy, and the matching flags.
+// `bestEval` must be the position's eval before the move, `evaluation` the
+// eval after it, and `secondBestEval` (if known) the eval after the engine's
+// second choice.
+export function classifyMove(move: GameMove, fenBefore: string, context: MoveContext = {}): GameMove {
+  const white = movedWhite(move);
+  const winBefore = moverWinPercent(move.bestEval, white);
+  const winAfter = moverWinPercent(move.evaluation, white);
+  const drop = Math.max(0, winBefore - winAfter);
+  const accuracy = moveAccuracy(winBefore, winAfter);
+  const isTopMove = move.bestLine[0] === move.san;
+  const { inBook = false, opportunity = 0, previousWin } = context;
+
+  let classification: MoveClass;
+  if (inBook) classification = 'book';
+  else if (new Chess(fenBefore).moves().length === 1) classification = 'forced';
+  else if (isBrilliancy(move, fenBefore, winBefore, drop)) classification = 'brilliant';
+  else if (isOnlyMove(move, isTopMove, winBefore, white)) classification = 'great';
+  else if (opportunity >= MISS_OPPORTUNITY && drop >= INACCURACY_DROP &&
+      previousWin !== undefined && winAfter >= previousWin - INACCURACY_DROP) {
+    // Gave back what the opponent's error offered, without falling further
+    classification = 'miss';
+  }
+  else if (drop >= BLUNDER_DROP) classification = 'blunder';
+  else if (drop >= MISTAKE_DROP) classification = 'mistake';
+  else if (drop >= INACCURACY_DROP) classification = 'inaccuracy';
+  else if (isTopMove || drop < BEST_LIMIT) classification = 'best';
+  else if (drop < EXCELLENT_LIMIT) classification = 'excellent';
+  else classification = 'good';
+
+  return {
+    ...move,
+    classification,
+    accuracy,
+    isBrilliant: classification === 'brilliant',
+    isBlunder: classification === 'blunder',
+    isMistake: classification === 'mistake' || classification === 'miss',
+    isInaccuracy: classification === 'inaccuracy',
+  };
+}
+
+// Classify every player move in order, with what only the whole game can
+// tell: whether the game is still in book, and what the opponent's last
+// move gave away
+export function classifyMoves(moves: GameMove[], startFen: string): GameMove[] {
+  let inBook = true;
+  let previousWin: number | undefined;
+  return moves.map((move, i) => {
+    inBook = inBook && lookupOpening(move.fen) !== null;
+    // Moves the analysis couldn't measure stay unjudged
+    if (!move.isPlayerMove || !move.classification) return move;
+
+    const fenBefore = i > 0 ? moves[i - 1].fen : startFen;
+    const white = movedWhite(move);
+    const winBefore = moverWinPercent(move.bestEval, white);
+    const opportunity = previousWin === undefined ? 0 : winBefore - previousWin;
+    const classified = classifyMove(move, fenBefore, { inBook, opportunity, previousWin });
+    previousWin = moverWinPercent(move.evaluation, white);
+    return classified;
+  });
+}
+
+// A move's class, falling back to the flags on moves saved before classes
+// were recorded; null for moves that were never analyzed
+export function moveClass(move: GameMove): MoveClass | null {
+  if (move.classification) return move.classification;
+  if (move.isBrilliant) return 'brilliant';
+  if (move.isBlunder) return 'blunder';
+  if (move.isMistake) return 'mistake';
+  if (move.isInaccuracy) return 'inaccuracy';
+  return null;
+}
@@ -3,7 +3,7 @@
 // The "secret sauce" — picks moves that keep games razor-tight
 // ============================================================
 
-import { Chess, Square } from 'chess.js';
+import { Chess } from 'chess.js';
 import { ChessEngineInterface } from './engine-interface';
 import {
   AdaptiveConfig,
@@ -15,10 +15,36 @@ import {
   PositionEval,
 } from './types';
 import { getPersonalityConfig } from './personalities';
-
-const BLUNDER_THRESHOLD = 300;
-const MISTAKE_THRESHOLD = 100;
-const INACCURACY_THRESHOLD = 50;
+import { uciToSan } from './notation';
+import { remainingMs } from './clock';
+import { BookMove, OpeningBook, bookDepthForElo, pickBookMove, repertoireBook } from './opening-book';
+import { lookupOpening } from './eco';
+import { prepareTablebases, tablebaseEval } from './tablebase';
+import { classifyMove } from './accuracy';
+
+const MAX_CPL_EVAL = 1000;        // mate scores are clamped before measuring loss
+const ANALYSIS_LIMITS = { depth: 16, movetime: 2000 };
+const SELECT_DEPTH = 4;
+const MIN_THINK_MS = 250;
+const OBVIOUS_MOVE_GAP = 150;     // cp between the best and second-best move
+const BOOK_TAPER_PLIES = 4;       // the book is left at random over its last few plies
+const DRAW_MIN_PLIES = 20;        // offers before move 10 are turned down
+const DRAW_EVAL_LIMITS = { depth: 12, movetime: 800 };
+
+// Engine-side eval (cp) at or below which each persona takes a draw when the
+// tension is middling; tense games lower the bar, one-sided ones raise it
+const DRAW_ACCEPT_EVAL: Record<Personality, number> = {
+  grinder: -200,    // would rather keep grinding, even when worse
+  attacker: -80,
+  trickster: -40,
+  mentor: 30,
+};
+
+export interface AdaptiveSnapshot {
+  rollingAccuracy: number[];
+  momentumStreak: number;
+  outOfBook: boolean;
+}
 
 export class AdaptiveEngine {
   private engine: ChessEngineInterface;
@@ -26,11 +52,17 @@ export class AdaptiveEngine {
   private personality: Personality;
   private rollingAccuracy: number[] = [];
   private momentumStreak = 0;
+  private polyglotBook: OpeningBook | null;
+  private outOfBook = false;
+  private leftBookThisMove = false;
 
-  constructor(engine: ChessEngineInterface, personality: Personality = 'mentor') {
+  constructor(engine: ChessEngineInterface, personality: Personality = 'mentor', polyglotBook: OpeningBook | null = null) {
     this.engine = engine;
     this.personality = personality;
     this.config = this.buildConfig(personality);
+    this.polyglotBook = polyglotBook;
+    // Ready well before the game reaches an endgame that needs them
+    prepareTablebases();
   }
 
   private buildConfig(personality: Personality): AdaptiveConfig {
@@ -53,26 +85,74 @@ export class AdaptiveEngine {
   async selectMove(
     fen: string,
     gameState: GameState,
-    profile: PlayerProfile
-  ): Promise<{ move: string; san: string; evaluation: number; thinking: string }> {
-    const posEval = await this.engine.evaluate(fen, 4, 8);
-    const topMoves = posEval.bestMoves;
+    profile: PlayerProfile,
+    onProgress?: (partial: PositionEval) => void
+  ): Promise<{
+    move: string;
+    san: string;
+    evaluation: number;
+    bestEvaluation: number;
+    centipawnLoss: number;
+    bestLine: string[];
+    thinking: string;
+    thinkTime: number;
+  }> {
+    // In timed games the search must fit the time we mean to spend
+    const budget = this.planThinkTime(gameState);
+
+    const bookMove = this.probeBook(fen, gameState, profile);
+    if (bookMove) {
+      const opening = lookupOpening(new Chess(fen).move(bookMove.san).after);
+      const previous = gameState.moves[gameState.moves.length - 1];
+      return {
+        move: bookMove.uci,
+        san: bookMove.san,
+        // Book moves aren't searched; the last known eval stands
+        evaluation: previous?.evaluation ?? 0,
+        bestEvaluation: previous?.evaluation ?? 0,
+        centipawnLoss: 0,
+        bestLine: [bookMove.san],
+        thinking: opening ? `Book move: ${opening.name}.` : 'Still in my opening preparation.',
+        thinkTime: budget === null ? 0 : Math.min(budget, MIN_THINK_MS * (1 + Math.random() * 3)),
+      };
+    }
+    const justLeftBook = this.leftBookThisMove;
+    this.leftBookThisMove = false;
+
+    const limits = budget === null ? SELECT_DEPTH : { depth: SELECT_DEPTH, movetime: budget };
+
+    // Tablebase positions are scored exactly, whichever engine is behind us
+    let posEval: PositionEval | null = tablebaseEval(fen, 8);
+    if (posEval) {
+      onProgress?.(posEval);
+    } else {
+      for await (const update of this.engine.evaluateStream(fen, limits, 8)) {
+        posEval = update;
+        onProgress?.(update);
+      }
+    }
+    const topMoves = posEval?.bestMoves ?? [];
 
-    if (topMoves.length === 0) {
+    if (!posEval || topMoves.length === 0) {
       throw new Error('No legal moves available');
     }
 
     if (topMoves.length === 1) {
       return {
         move: topMoves[0].move,
-        san: this.uciToSan(fen, topMoves[0].move),
+        san: uciToSan(fen, topMoves[0].move),
         evaluation: topMoves[0].evaluation,
+        bestEvaluation: topMoves[0].evaluation,
+        centipawnLoss: 0,
+        bestLine: topMoves[0].pvSan,
         thinking: 'Only one legal move.',
+        thinkTime: budget === null ? 0 : Math.min(budget, MIN_THINK_MS),
       };
     }
 
     const currentEval = posEval.evaluation;
     const isEngineSideWhite = gameState.playerColor === 'black';
+    const obvious = this.isObviousMove(topMoves, isEngineSideWhite);
     const enginePerspectiveEval = isEngineSideWhite ? currentEval : -currentEval;
 
     const correctionFactor = -enginePerspectiveEval * this.config.adaptiveStrength;
@@ -90,16 +170,94 @@ export class AdaptiveEngine {
     const personalityFiltered = this.applyPersonalityFilter(scoredMoves, gameState);
     const selected = this.weightedRandomSelect(personalityFiltered, profile.elo);
     const finalMove = this.maybeInjectMistake(selected, topMoves, profile, gameState);
-    const san = this.uciToSan(fen, finalMove.move);
+    const san = uciToSan(fen, finalMove.move);
+    // What choosing below the best move cost, for rating the engine's play
+    const clamp = (e: number) => Math.max(-MAX_CPL_EVAL, Math.min(MAX_CPL_EVAL, e));
+    const evalDrop = clamp(topMoves[0].evaluation) - clamp(finalMove.evaluation);
 
     return {
       move: finalMove.move,
       san,
       evaluation: finalMove.evaluation,
-      thinking: this.generateThinking(finalMove, topMoves[0], enginePerspectiveEval, adjustedTarget),
+      bestEvaluation: topMoves[0].evaluation,
+      centipawnLoss: Math.max(0, isEngineSideWhite ? evalDrop : -evalDrop),
+      bestLine: topMoves[0].pvSan,
+      thinking: (justLeftBook ? 'Out of book, on my own now. ' : '') +
+        this.generateThinking(finalMove, topMoves[0], enginePerspectiveEval, adjustedTarget),
+      // One clearly best move gets played quickly, like a recapture would
+      thinkTime: budget === null ? 0 : Math.max(Math.min(budget, MIN_THINK_MS), budget * (obvious ? 0.35 : 1)),
     };
   }
 
+  // A move from the personality's repertoire, then the Polyglot book, while
+  // the game is within the player's book depth. Near the end of that depth
+  // the book is left at random so the exit point varies from game to game;
+  // once out, the engine stays out even if a line transposes back in.
+  private probeBook(fen: string, gameState: GameState, profile: PlayerProfile): BookMove | null {
+    if (this.outOfBook) return null;
+
+    const ply = gameState.moves.length;
+    const depth = bookDepthForElo(profile.elo);
+    const taper = (ply - (depth - BOOK_TAPER_PLIES)) / (BOOK_TAPER_PLIES + 1);
+    const leaving = ply >= depth || Math.random() < taper;
+
+    let moves: BookMove[] = [];
+    if (!leaving) {
+      const engineColor = gameState.playerColor === 'white' ? 'black' : 'white';
+      moves = repertoireBook(this.personality, engineColor).probe(fen);
+      if (moves.length === 0 && this.polyglotBook) moves = this.polyglotBook.probe(fen);
+    }
+
+    if (moves.length === 0) {
+      this.outOfBook = true;
+      this.leftBookThisMove = true;
+      return null;
+    }
+    return pickBookMove(moves);
+  }
+
+  // Clock time to spend on this move, or null when the game is untimed.
+  // Roughly an even share of the remaining time plus most of the increment,
+  // quick in the opening and when short of time, slower when the game is tense.
+  private planThinkTime(gameState: GameState): number | null {
+    const { clock, timeControl } = gameState;
+    if (!clock || !timeControl) return null;
+
+    const side = gameState.playerColor === 'white' ? 'black' : 'white';
+    const remaining = remainingMs(clock, timeControl, side);
+    const moveNumber = Math.floor(gameState.moves.length / 2) + 1;
+    const movesToGo = Math.max(20, 45 - moveNumber);
+
+    let budget = remaining / movesToGo + timeControl.incrementMs * 0.75 + timeControl.delayMs * 0.8;
+    if (moveNumber <= 6) budget *= 0.3;
+    else if (gameState.gamePhase === 'middlegame') budget *= 1.2;
+    budget *= 0.7 + (gameState.tensionScore / 10) * 0.6;
+
+    switch (this.personality) {
+      case 'grinder':
+        budget *= 1.3;
+        break;
+      case 'attacker':
+        budget *= 0.8;
+        break;
+      case 'trickster':
+        budget *= 0.9;
+        break;
+    }
+
+    // Low on time: stop deliberating and bang out moves
+    if (remaining < 20_000) budget = Math.min(budget, remaining / 30 + timeControl.incrementMs * 0.5);
+
+    budget *= 0.6 + Math.random() * 0.8;
+    return Math.min(Math.max(MIN_THINK_MS, budget), remaining * 0.2);
+  }
+
+  private isObviousMove(topMoves: MoveAnalysis[], isEngineSideWhite: boolean): boolean {
+    if (topMoves.length < 2) return true;
+    const gap = topMoves[0].evaluation - topMoves[1].evaluation;
+    return (isEngineSideWhite ? gap : -gap) >= OBVIOUS_MOVE_GAP;
+  }
+
   private scoreMove(
     move: MoveAnalysis,
     moveEvalForEngine: number,
@@ -229,36 +387,47 @@ export class AdaptiveEngine {
     uciMove: string,
     sanMove: string,
     moveNumber: number,
-    thinkTime: number
+    thinkTime: number,
+    signal?: AbortSignal
   ): Promise<GameMove> {
-    const evalBefore = await this.engine.evaluate(fenBefore, 16, 1);
-    const evalAfter = await this.engine.evaluate(fenAfter, 16, 1);
+    // A shallow search can't tell a won endgame from a drawn one; the tables can
+    // Two lines before the move, to tell an only move from one of several good ones
+    const evalBefore = tablebaseEval(fenBefore, 2) ?? await this.engine.evaluate(fenBefore, ANALYSIS_LIMITS, 2, { signal });
+    const evalAfter = tablebaseEval(fenAfter) ?? await this.engine.evaluate(fenAfter, ANALYSIS_LIMITS, 1, { signal });
     const bestEval = evalBefore.evaluation;
     const actualEval = evalAfter.evaluation;
-    const evalDrop = bestEval - actualEval;
-    const absoluteCPL = Math.abs(evalDrop);
-    const isBlunder = absoluteCPL >= BLUNDER_THRESHOLD;
-    const isMistake = !isBlunder && absoluteCPL >= MISTAKE_THRESHOLD;
-    const isInaccuracy = !isBlunder && !isMistake && absoluteCPL >= INACCURACY_THRESHOLD;
-    const isBrilliant = absoluteCPL <= 5 && evalBefore.bestMoves.length > 3 &&
-      evalBefore.bestMoves[0].move === uciMove;
-
-    const gameMove: GameMove = {
+    // Evals are white-relative; loss is measured from the mover's side and
+    // never negative (an engine that missed something at low depth is not a loss)
+    const moverIsWhite = fenBefore.split(' ')[1] === 'w';
+    const clampedBest = Math.max(-MAX_CPL_EVAL, Math.min(MAX_CPL_EVAL, bestEval));
+    const clampedActual = Math.max(-MAX_CPL_EVAL, Math.min(MAX_CPL_EVAL, actualEval));
+    const evalDrop = moverIsWhite ? clampedBest - clampedActual : clampedActual - clampedBest;
+    // A fallback eval from a search that never ran says nothing about the move
+    const measured = isSearched(evalBefore) && isSearched(evalAfter);
+    const absoluteCPL = measured ? Math.max(0, evalDrop) : 0;
+
+    const analyzed: GameMove = {
       moveNumber,
       san: sanMove,
       uci: uciMove,
       fen: fenAfter,
       evaluation: actualEval,
       bestEval,
+      bestLine: evalBefore.bestMoves[0]?.pvSan ?? [],
+      secondBestEval: evalBefore.bestMoves[1]?.evaluation,
+      refutation: evalAfter.bestMoves[0]?.pvSan,
       centipawnLoss: absoluteCPL,
-      isBlunder,
-      isMistake,
-      isInaccuracy,
-      isBrilliant,
+      isBlunder: false,
+      isMistake: false,
+      isInaccuracy: false,
+      isBrilliant: false,
       timestamp: Date.now(),
       thinkTime,
       isPlayerMove: true,
     };
+    // Judged on win percentage, so the same loss matters less when the game
+    // is already decided; unmeasured moves go unjudged
+    const gameMove = measured ? classifyMove(analyzed, fenBefore) : analyzed;
 
     this.updatePlayerAccuracy(gameMove);
     return gameMove;
@@ -300,19 +469,6 @@ export class AdaptiveEngine {
     return 'middlegame';
   }
 
-  private uciToSan(fen: string, uci: string): string {
-    try {
-      const chess = new Chess(fen);
-      const from = uci.slice(0, 2) as Square;
-      const to = uci.slice(2, 4) as Square;
-      const promotion = uci.length > 4 ? uci[4] : undefined;
-      const result = chess.move({ from, to, promotion });
-      return result ? result.san : uci;
-    } catch {
-      return uci;
-    }
-  }
-
   private generateThinking(
     selected: MoveAnalysis & { score: number },
     best: MoveAnalysis,
@@ -326,8 +482,49 @@ export class AdaptiveEngine {
     return 'An interesting choice that maintains tension in the position.';
   }
 
+  // Accept or decline the player's draw offer
+  async considerDrawOffer(fen: string, gameState: GameState): Promise<{ accepted: boolean; reply: string }> {
+    const { drawReplies } = getPersonalityConfig(this.personality);
+    if (gameState.moves.length < DRAW_MIN_PLIES) {
+      return { accepted: false, reply: drawReplies.decline };
+    }
+
+    const posEval = tablebaseEval(fen) ?? await this.engine.evaluate(fen, DRAW_EVAL_LIMITS, 1);
+    const engineIsWhite = gameState.playerColor === 'black';
+    const engineEval = engineIsWhite ? posEval.evaluation : -posEval.evaluation;
+    const threshold = DRAW_ACCEPT_EVAL[this.personality] + (gameState.tensionScore - 5) * 10;
+
+    const accepted = engineEval <= threshold;
+    return { accepted, reply: accepted ? drawReplies.accept : drawReplies.decline };
+  }
+
+  // Player tracking and book state, kept with each player move so a
+  // takeback can put them back as they were
+  snapshot(): AdaptiveSnapshot {
+    return {
+      rollingAccuracy: [...this.rollingAccuracy],
+      momentumStreak: this.momentumStreak,
+      outOfBook: this.outOfBook,
+    };
+  }
+
+  restore(snapshot: AdaptiveSnapshot): void {
+    this.rollingAccuracy = [...snapshot.rollingAccuracy];
+    this.momentumStreak = snapshot.momentumStreak;
+    this.outOfBook = snapshot.outOfBook;
+    this.leftBookThisMove = false;
+  }
+
   reset(): void {
     this.rollingAccuracy = [];
     this.momentumStreak = 0;
+    this.outOfBook = false;
+    this.leftBookThisMove = false;
   }
 }
+
+// False for the depth-0 placeholder an engine returns when it timed out,
+// errored or was aborted before finishing a single iteration
+function isSearched(result: PositionEval): boolean {
+  return result.depth > 0 || result.stopReason === 'completed' || result.stopReason === undefined;
+}
@@ -3,21 +3,46 @@
 // Full game review with critical moment detection
 // ============================================================
 
-import { CriticalMoment, GameMove, GameState, PostGameAnalysis } from './types';
-
-export function generatePostGameAnalysis(gameState: GameState): PostGameAnalysis {
+import { CriticalMoment, GameMove, GameState, MoveClass, PlayerProfile, PostGameAnalysis, TacticalMotif, TacticalTag } from './types';
+import { formatOpening, identifyOpening } from './eco';
+import { gameAccuracy, moveClass, winPercent } from './accuracy';
+import { countMotifs, motifName, recentMissedTactics } from './motifs';
+
+const CRITICAL_WIN_SWING = 10;    // win-percentage swing that makes a moment critical
+const REPEATED_MOTIF = 2;         // missed this often in a week, a tactic gets its own suggestion
+
+const MOTIF_ADVICE: Record<TacticalMotif, string> = {
+  'fork': 'Before each move, check which squares let a piece attack two of yours at once.',
+  'pin': 'Watch the lines through your pieces to your king and queen.',
+  'skewer': 'Keep your king and queen off open lines the opponent\'s rooks and bishops can reach.',
+  'discovered-attack': 'When an enemy piece stands between a rook or bishop and your pieces, ask what happens if it moves.',
+  'back-rank-mate': 'Give your king an escape square once the heavy pieces come out.',
+  'hanging-piece': 'Before you move, count attackers and defenders on every piece you leave behind.',
+  'overloaded-defender': 'Look for pieces doing two jobs at once, yours and your opponent\'s.',
+  'deflection': 'Ask what each defender is guarding before you let it be lured away.',
+};
+
+// `profile` supplies the tactics missed earlier in the week; it may already
+// include this game
+export function generatePostGameAnalysis(
+  gameState: GameState,
+  profile: PlayerProfile = gameState.playerProfile
+): PostGameAnalysis {
   const playerMoves = gameState.moves.filter(m => m.isPlayerMove);
   const engineMoves = gameState.moves.filter(m => !m.isPlayerMove);
 
-  // Player accuracy
-  const playerAccuracy = playerMoves.length > 0
-    ? Math.max(0, Math.min(100, 100 - (playerMoves.reduce((s, m) => s + m.centipawnLoss, 0) / playerMoves.length)))
-    : 50;
+  // Accuracy from the win percentage each side's moves gave away
+  const playerAccuracy = gameAccuracy(gameState.moves, true) ?? 50;
 
   // Engine accuracy (should be near player's level)
-  const engineAccuracy = engineMoves.length > 0
-    ? Math.max(0, Math.min(100, 100 - (engineMoves.reduce((s, m) => s + m.centipawnLoss, 0) / engineMoves.length)))
-    : 50;
+  const engineAccuracy = engineMoves.length > 0 ? gameAccuracy(gameState.moves, false) ?? 50 : 50;
+
+  // How many of the player's moves fell in each class
+  const moveClasses: Partial<Record<MoveClass, number>> = {};
+  for (const move of playerMoves) {
+    const cls = moveClass(move);
+    if (cls) moveClasses[cls] = (moveClasses[cls] ?? 0) + 1;
+  }
 
   // Detect critical moments
   const criticalMoments = detectCriticalMoments(gameState.moves);
@@ -26,26 +51,26 @@ export function generatePostGameAnalysis(gameState: GameState): PostGameAnalysis
   const weaknessesExposed = detectWeaknessesFromGame(playerMoves);
 
   // Detect strengths
-  const strengths = detectStrengths(playerMoves);
+  const strengths = detectStrengths(playerMoves, playerAccuracy);
 
   // Generate suggestions
-  const suggestions = generateSuggestions(playerMoves, weaknessesExposed);
+  const weeklyMotifs = countMotifs(recentMissedTactics(profile.missedTactics ?? [], gameState.moves, gameState.id));
+  const suggestions = generateSuggestions(playerAccuracy, weaknessesExposed, weeklyMotifs);
 
   // Determine result string for ELO
   let resultStr = 'draw';
-  if (gameState.result) {
-    if (gameState.result.type === 'checkmate' || gameState.result.type === 'resignation' || gameState.result.type === 'timeout') {
-      resultStr = gameState.result.winner === gameState.playerColor ? 'win' : 'loss';
-    }
+  if (gameState.result && 'winner' in gameState.result) {
+    resultStr = gameState.result.winner === gameState.playerColor ? 'win' : 'loss';
   }
 
   return {
     gameId: gameState.id,
     playerAccuracy,
     engineAccuracy,
+    moveClasses,
     tensionScore: gameState.tensionScore,
     criticalMoments,
-    openingName: detectOpening(gameState.moves),
+    openingName: formatOpening(identifyOpening(gameState.startFen, gameState.moves)),
     eloChange: 0, // calculated separately
     weaknessesExposed,
     strengths,
@@ -54,100 +79,139 @@ export function generatePostGameAnalysis(gameState: GameState): PostGameAnalysis
 }
 
 function detectCriticalMoments(moves: GameMove[]): CriticalMoment[] {
-  const moments: CriticalMoment[] = [];
+  const moments: { moment: CriticalMoment; winSwing: number }[] = [];
 
   for (let i = 1; i < moves.length; i++) {
     const move = moves[i];
     const prevMove = moves[i - 1];
     const evalSwing = Math.abs(move.evaluation - prevMove.evaluation);
-
-    // A critical moment is any move with a big eval swing
-    if (evalSwing > 100 && move.isPlayerMove) {
+    const winSwing = Math.abs(winPercent(move.evaluation) - winPercent(prevMove.evaluation));
+    const cls = moveClass(move);
+
+    // A critical moment is a move that swung the winning chances, or one
+    // that was brilliant, missed a chance or threw the game
+    const notable = cls === 'brilliant' || cls === 'miss' || cls === 'blunder';
+    if (move.isPlayerMove && (winSwing >= CRITICAL_WIN_SWING || notable)) {
+      const bestLine = move.bestLine.length > 0 ? move.bestLine : [move.san];
+      const best = bestLine[0];
       let description: string;
-      if (move.isBlunder) {
+      if (cls === 'blunder') {
         description = `Blunder! ${move.san} lost ${Math.round(evalSwing / 100 * 10) / 10} pawns worth of advantage.`;
-      } else if (move.isBrilliant) {
-        description = `Brilliant move! ${move.san} — finding the only winning continuation.`;
-      } else if (evalSwing > 200) {
+      } else if (cls === 'brilliant') {
+        description = `Brilliant move! ${move.san} — a sacrifice that holds up.`;
+      } else if (cls === 'miss') {
+        description = `Missed chance with ${move.san}. Your opponent's last move left an opening.`;
+      } else if (cls === 'mistake') {
         description = `Critical mistake with ${move.san}. This significantly shifted the balance.`;
       } else {
         description = `Important moment: ${move.san} changed the character of the position.`;
       }
+      if (best !== move.san) {
+        description += ` Best was ${bestLine.slice(0, 3).join(' ')}${bestLine.length > 3 ? '…' : '.'}`;
+      }
 
-      moments.push({
+      const moment: CriticalMoment = {
         moveNumber: move.moveNumber,
         fen: move.fen,
         played: move.san,
-        best: move.san, // would need engine analysis for the actual best move
+        best,
+        bestLine,
+        fenBefore: prevMove.fen,
         evalSwing,
         description,
-      });
+      };
+      moments.push({ moment, winSwing });
     }
   }
 
   // Keep top 5 most critical moments
   return moments
-    .sort((a, b) => b.evalSwing - a.evalSwing)
-    .slice(0, 5);
+    .sort((a, b) => b.winSwing - a.winSwing)
+    .slice(0, 5)
+    .map(m => m.moment);
+}
+
+// Inaccuracies and worse
+function isError(move: GameMove): boolean {
+  const cls = moveClass(move);
+  return cls === 'inaccuracy' || cls === 'mistake' || cls === 'miss' || cls === 'blunder';
+}
+
+// Plain mean of per-move accuracy, for judging a stretch of the game
+function averageAccuracy(moves: GameMove[]): number {
+  const measured = moves.filter(m => m.accuracy !== undefined);
+  if (measured.length === 0) return 100;
+  return measured.reduce((s, m) => s + m.accuracy!, 0) / measured.length;
 }
 
 function detectWeaknessesFromGame(playerMoves: GameMove[]): string[] {
   const weaknesses: string[] = [];
 
   // Opening blunders
-  const openingBlunders = playerMoves.filter(m => m.moveNumber <= 10 && (m.isBlunder || m.isMistake));
+  const openingBlunders = playerMoves.filter(m => m.moveNumber <= 10 && isError(m));
   if (openingBlunders.length >= 2) weaknesses.push('Opening preparation needs work');
 
-  // Tactical oversights
-  const bigMisses = playerMoves.filter(m => m.centipawnLoss > 200);
+  // Tactical oversights: chances missed and pieces dropped
+  const bigMisses = playerMoves.filter(m => moveClass(m) === 'miss' || moveClass(m) === 'blunder');
   if (bigMisses.length >= 2) weaknesses.push('Missing tactical shots');
+  const motifs = countMotifs(playerMoves.flatMap(m => m.motifs ?? []));
+  if (motifs.length > 0) {
+    weaknesses.push(`Overlooked: ${motifs.map(({ tag, count }) => motifName(tag, count)).join(', ')}`);
+  }
 
   // Endgame technique
   const endgameMoves = playerMoves.filter(m => m.moveNumber > 30);
   if (endgameMoves.length > 3) {
-    const endgameAvgCPL = endgameMoves.reduce((s, m) => s + m.centipawnLoss, 0) / endgameMoves.length;
-    if (endgameAvgCPL > 60) weaknesses.push('Endgame technique could improve');
+    if (averageAccuracy(endgameMoves) < 70) weaknesses.push('Endgame technique could improve');
   }
 
   // Time pressure errors (fast moves late in game)
-  const lateFastMoves = playerMoves.filter(m => m.moveNumber > 25 && m.thinkTime < 2000 && m.centipawnLoss > 50);
+  const lateFastMoves = playerMoves.filter(m => m.moveNumber > 25 && m.thinkTime < 2000 && isError(m));
   if (lateFastMoves.length >= 3) weaknesses.push('Rushing in critical moments');
 
   return weaknesses;
 }
 
-function detectStrengths(playerMoves: GameMove[]): string[] {
+function detectStrengths(playerMoves: GameMove[], accuracy: number): string[] {
   const strengths: string[] = [];
 
   // Good opening play
   const openingMoves = playerMoves.filter(m => m.moveNumber <= 10);
   if (openingMoves.length > 3) {
-    const openingAvgCPL = openingMoves.reduce((s, m) => s + m.centipawnLoss, 0) / openingMoves.length;
-    if (openingAvgCPL < 20) strengths.push('Excellent opening preparation');
+    if (averageAccuracy(openingMoves) >= 90) strengths.push('Excellent opening preparation');
   }
 
   // Brilliant moves
-  const brilliantMoves = playerMoves.filter(m => m.isBrilliant);
+  const brilliantMoves = playerMoves.filter(m => moveClass(m) === 'brilliant');
   if (brilliantMoves.length > 0) strengths.push(`Found ${brilliantMoves.length} brilliant move(s)`);
+  const onlyMoves = playerMoves.filter(m => moveClass(m) === 'great');
+  if (onlyMoves.length > 0) strengths.push(`Found the only good move ${onlyMoves.length} time(s)`);
 
   // Consistent accuracy
-  const avgCPL = playerMoves.reduce((s, m) => s + m.centipawnLoss, 0) / playerMoves.length;
-  if (avgCPL < 30) strengths.push('Very consistent play throughout');
-  if (avgCPL < 15) strengths.push('Near-perfect accuracy');
+  if (accuracy >= 85) strengths.push('Very consistent play throughout');
+  if (accuracy >= 95) strengths.push('Near-perfect accuracy');
 
   // No blunders
-  if (!playerMoves.some(m => m.isBlunder)) strengths.push('Clean game — no blunders');
+  if (!playerMoves.some(m => moveClass(m) === 'blunder')) strengths.push('Clean game — no blunders');
 
   return strengths;
 }
 
-function generateSuggestions(playerMoves: GameMove[], weaknesses: string[]): string[] {
+function generateSuggestions(
+  accuracy: number,
+  weaknesses: string[],
+  weeklyMotifs: { tag: TacticalTag; count: number }[]
+): string[] {
   const suggestions: string[] = [];
+  const [topMotif] = weeklyMotifs;
 
   if (weaknesses.includes('Opening preparation needs work')) {
     suggestions.push('Study the opening you played. Review the first 10 moves and compare to theory.');
   }
-  if (weaknesses.includes('Missing tactical shots')) {
+  if (topMotif && topMotif.count >= REPEATED_MOTIF) {
+    const { tag, count } = topMotif;
+    suggestions.push(`You missed ${count} ${motifName(tag, count)} this week. ${MOTIF_ADVICE[tag.motif]}`);
+  } else if (weaknesses.includes('Missing tactical shots')) {
     suggestions.push('Practice puzzles daily — focus on pattern recognition for forks, pins, and skewers.');
   }
   if (weaknesses.includes('Endgame technique could improve')) {
@@ -158,8 +222,7 @@ function generateSuggestions(playerMoves: GameMove[], weaknesses: string[]): str
   }
 
   if (suggestions.length === 0) {
-    const avgCPL = playerMoves.reduce((s, m) => s + m.centipawnLoss, 0) / playerMoves.length;
-    if (avgCPL < 20) {
+    if (accuracy >= 90) {
       suggestions.push('Excellent game! Try the Attacker personality for a bigger challenge.');
     } else {
       suggestions.push('Good game! Focus on reducing inaccuracies in the middlegame.');
@@ -168,35 +231,3 @@ function generateSuggestions(playerMoves: GameMove[], weaknesses: string[]): str
 
   return suggestions;
 }
-
-function detectOpening(moves: GameMove[]): string {
-  if (moves.length < 2) return 'Unknown Opening';
-
-  const first4 = moves.slice(0, 4).map(m => m.san);
-  const moveStr = first4.join(' ');
-
-  // Simple opening detection (could be expanded with a proper ECO database)
-  if (moveStr.startsWith('e4 e5 Nf3 Nc6')) return 'Italian Game / Four Knights';
-  if (moveStr.startsWith('e4 e5 Nf3 Nf6')) return "Petrov's Defense";
-  if (moveStr.startsWith('e4 e5 Nf3')) return 'King\'s Pawn Game';
-  if (moveStr.startsWith('e4 c5')) return 'Sicilian Defense';
-  if (moveStr.startsWith('e4 e6')) return 'French Defense';
-  if (moveStr.startsWith('e4 c6')) return 'Caro-Kann Defense';
-  if (moveStr.startsWith('e4 d5')) return 'Scandinavian Defense';
-  if (moveStr.startsWith('d4 d5 c4')) return "Queen's Gambit";
-  if (moveStr.startsWith('d4 Nf6 c4 g6')) return "King's Indian Defense";
-  if (moveStr.startsWith('d4 Nf6 c4 e6')) return 'Nimzo/Queen\'s Indian';
-  if (moveStr.startsWith('d4 d5')) return "Queen's Pawn Game";
-  if (moveStr.startsWith('d4 Nf6')) return 'Indian Defense';
-  if (moveStr.startsWith('c4')) return 'English Opening';
-  if (moveStr.startsWith('Nf3')) return 'Reti Opening';
-
-  return 'Unorthodox Opening';
-}
-
-// Calculate accuracy percentage from centipawn loss
-export function cplToAccuracy(avgCPL: number): number {
-  // Formula: accuracy = 103.1668 * exp(-0.04354 * avgCPL) - 3.1668
-  // (inspired by Lichess/chess.com accuracy formulas)
-  return Math.max(0, Math.min(100, 103.1668 * Math.exp(-0.04354 * avgCPL) - 3.1668));
-}
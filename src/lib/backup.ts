@@ -0,0 +1,189 @@
+// ============================================================
+// RazorChess — Backups
+// A player's profile, history and settings as one versioned,
+// checksummed JSON file, for moving between browsers
+// ============================================================
+
+import { EloHistory, PlayerProfile, SavedGame } from './types';
+import { EnginePreference, loadEnginePreference, saveEnginePreference } from './engine-factory';
+import { loadEloHistory, loadGameHistory, switchProfile } from './player-profile';
+import { STORES, requestResult, toStoredGame, withTransaction } from './storage';
+
+const BACKUP_FORMAT = 'razorchess-backup';
+const BACKUP_VERSION = 1;
+const ENGINE_PREFERENCES: EnginePreference[] = ['auto', 'stockfish', 'simple'];
+
+export interface BackupSettings {
+  enginePreference: EnginePreference;
+}
+
+export interface BackupData {
+  profile: PlayerProfile;
+  eloHistory: EloHistory[];
+  games: SavedGame[];
+  settings: BackupSettings;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  checksum: string;           // SHA-256 of the JSON-encoded data
+  data: BackupData;
+}
+
+// Merge keeps what is already here and adds what isn't; replace makes the
+// player's local data an exact copy of the backup
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportSummary {
+  profile: PlayerProfile;
+  settings: BackupSettings;
+  gamesAdded: number;
+  gamesSkipped: number;       // already present (merge only)
+}
+
+async function checksum(data: BackupData): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function createBackup(profile: PlayerProfile): Promise<BackupFile> {
+  const [eloHistory, games] = await Promise.all([loadEloHistory(profile.id), loadGameHistory(profile.id)]);
+  const data: BackupData = {
+    profile,
+    eloHistory,
+    games,
+    settings: { enginePreference: loadEnginePreference() },
+  };
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    checksum: await checksum(data),
+    data,
+  };
+}
+
+export function backupFileName(profile: PlayerProfile, date: number = Date.now()): string {
+  const day = new Date(date).toISOString().slice(0, 10);
+  const name = profile.name.replace(/[^\w-]+/g, '_') || 'player';
+  return `razorchess-${name}-${day}.json`;
+}
+
+export function downloadBackup(backup: BackupFile): void {
+  if (typeof window === 'undefined') return;
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = backupFileName(backup.data.profile, backup.exportedAt);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Structural checks on the decoded data; the message names what is wrong
+function validateData(data: unknown): string | null {
+  if (!isRecord(data)) return 'missing data';
+  const { profile, eloHistory, games, settings } = data;
+  if (!isRecord(profile) || typeof profile.id !== 'string' || typeof profile.name !== 'string' ||
+      typeof profile.elo !== 'number') {
+    return 'invalid profile';
+  }
+  if (!Array.isArray(eloHistory) ||
+      !eloHistory.every(e => isRecord(e) && typeof e.gameId === 'string' && typeof e.elo === 'number')) {
+    return 'invalid ELO history';
+  }
+  if (!Array.isArray(games) ||
+      !games.every(g => isRecord(g) && typeof g.id === 'string' && typeof g.date === 'number' && Array.isArray(g.moves))) {
+    return 'invalid game archive';
+  }
+  if (!isRecord(settings) || !ENGINE_PREFERENCES.includes(settings.enginePreference as EnginePreference)) {
+    return 'invalid settings';
+  }
+  return null;
+}
+
+// Parse and verify a backup file's contents. Throws with a readable
+// message if it isn't a backup, is from a newer version, or was altered.
+export async function readBackup(text: string): Promise<BackupFile> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Not a RazorChess backup: the file is not valid JSON');
+  }
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new Error('Not a RazorChess backup');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${String(parsed.version)} is newer than this app supports`);
+  }
+  const problem = validateData(parsed.data);
+  if (problem) throw new Error(`Backup is damaged: ${problem}`);
+
+  const backup = parsed as unknown as BackupFile;
+  if (backup.checksum !== await checksum(backup.data)) {
+    throw new Error('Backup is damaged: checksum does not match');
+  }
+  return backup;
+}
+
+// Write a verified backup into the database in one transaction, then make
+// its profile the active one. Games and ELO entries are deduplicated by
+// game id. On merge, the profile from whichever copy played last wins.
+export async function importBackup(backup: BackupFile, mode: ImportMode): Promise<ImportSummary> {
+  const { profile, eloHistory, games, settings } = backup.data;
+  const profileId = profile.id;
+
+  const summary = await withTransaction(
+    [STORES.profiles, STORES.games, STORES.eloHistory],
+    'readwrite',
+    async tx => {
+      const profileStore = tx.objectStore(STORES.profiles);
+      const gameStore = tx.objectStore(STORES.games);
+      const eloStore = tx.objectStore(STORES.eloHistory);
+      const existing = await requestResult(profileStore.get(profileId)) as PlayerProfile | undefined;
+      const localElo = await requestResult(eloStore.index('profileId').getAll(profileId)) as EloHistory[];
+
+      if (mode === 'replace') {
+        const oldGames = await requestResult(gameStore.index('profileId').getAllKeys(profileId));
+        oldGames.forEach(key => gameStore.delete(key));
+        localElo.forEach(entry => eloStore.delete(entry.gameId));
+      }
+
+      const known = new Set<IDBValidKey>(mode === 'merge' ? await requestResult(gameStore.getAllKeys()) : []);
+      let gamesAdded = 0;
+      let gamesSkipped = 0;
+      for (const game of games) {
+        if (known.has(game.id)) {
+          gamesSkipped++;
+          continue;
+        }
+        known.add(game.id);
+        gameStore.put(toStoredGame({ ...game, profileId }));
+        gamesAdded++;
+      }
+
+      const knownElo = new Set(mode === 'merge' ? localElo.map(e => e.gameId) : []);
+      for (const entry of eloHistory) {
+        if (!knownElo.has(entry.gameId)) eloStore.put({ ...entry, profileId });
+      }
+
+      const lastPlayed = (entries: EloHistory[]) => Math.max(0, ...entries.map(e => e.timestamp));
+      const keepLocal = mode === 'merge' && existing !== undefined && lastPlayed(localElo) > lastPlayed(eloHistory);
+      const kept = keepLocal && existing ? existing : profile;
+      profileStore.put(kept);
+      return { profile: kept, gamesAdded, gamesSkipped };
+    }
+  );
+
+  if (mode === 'replace') saveEnginePreference(settings.enginePreference);
+  await switchProfile(profileId);
+  return { ...summary, settings: mode === 'replace' ? settings : { enginePreference: loadEnginePreference() } };
+}
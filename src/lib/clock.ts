@@ -0,0 +1,130 @@
+// ============================================================
+// RazorChess — Chess Clock
+// Time controls, increment/delay bookkeeping and flag-fall
+// ============================================================
+
+import { Chess } from 'chess.js';
+import { ClockState, GameResult, TimeControl, TimeControlCategory } from './types';
+
+type Side = 'white' | 'black';
+
+export function createTimeControl(minutes: number, incrementSeconds: number = 0, delaySeconds: number = 0): TimeControl {
+  const initialMs = minutes * 60_000;
+  const incrementMs = incrementSeconds * 1000;
+  return {
+    initialMs,
+    incrementMs,
+    delayMs: delaySeconds * 1000,
+    category: categorize(initialMs, incrementMs),
+  };
+}
+
+// Same buckets as Lichess: estimated game length = initial + 40 × increment
+export function categorize(initialMs: number, incrementMs: number): TimeControlCategory {
+  const estimatedSeconds = (initialMs + 40 * incrementMs) / 1000;
+  if (estimatedSeconds < 180) return 'bullet';
+  if (estimatedSeconds < 480) return 'blitz';
+  if (estimatedSeconds < 1500) return 'rapid';
+  return 'classical';
+}
+
+export const TIME_CONTROL_PRESETS: TimeControl[] = [
+  createTimeControl(1),
+  createTimeControl(2, 1),
+  createTimeControl(3, 2),
+  createTimeControl(5),
+  createTimeControl(5, 0, 3),
+  createTimeControl(10),
+  createTimeControl(15, 10),
+  createTimeControl(30),
+  createTimeControl(30, 20),
+];
+
+// "5+3", or "5 d3" for delay
+export function formatTimeControl(tc: TimeControl): string {
+  const base = String(tc.initialMs / 60_000);
+  if (tc.delayMs > 0) return `${base} d${tc.delayMs / 1000}`;
+  return `${base}+${tc.incrementMs / 1000}`;
+}
+
+// "4:59", or "0:08.3" once under ten seconds
+export function formatClock(ms: number): string {
+  const clamped = Math.max(0, ms);
+  const totalSeconds = Math.floor(clamped / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  const base = `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  if (clamped >= 10_000) return base;
+  return `${base}.${Math.floor((clamped % 1000) / 100)}`;
+}
+
+export function createClock(tc: TimeControl, now: number = Date.now(), toMove: Side = 'white'): ClockState {
+  return {
+    whiteMs: tc.initialMs,
+    blackMs: tc.initialMs,
+    running: toMove,
+    turnStartedAt: now,
+  };
+}
+
+// The clock of a game put away at `savedAt` and picked up again at `now`:
+// the side to move keeps the time it had already used on this turn, and
+// only the time away from the board is free
+export function resumeClock(clock: ClockState, savedAt: number, now: number = Date.now()): ClockState {
+  const used = Math.max(0, savedAt - clock.turnStartedAt);
+  return { ...clock, turnStartedAt: now - used };
+}
+
+// Time actually charged for a turn that has lasted `elapsed` ms
+function chargedTime(tc: TimeControl, elapsed: number): number {
+  return Math.max(0, elapsed - tc.delayMs);
+}
+
+export function remainingMs(clock: ClockState, tc: TimeControl, side: Side, now: number = Date.now()): number {
+  const stored = side === 'white' ? clock.whiteMs : clock.blackMs;
+  if (clock.running !== side) return stored;
+  return stored - chargedTime(tc, now - clock.turnStartedAt);
+}
+
+// The side whose flag has fallen, if any
+export function flaggedSide(clock: ClockState, tc: TimeControl, now: number = Date.now()): Side | null {
+  if (!clock.running) return null;
+  return remainingMs(clock, tc, clock.running, now) <= 0 ? clock.running : null;
+}
+
+// The running side completed a move: charge it, add the increment and
+// start the opponent's turn. Callers check flaggedSide() first.
+export function pressClock(clock: ClockState, tc: TimeControl, now: number = Date.now()): ClockState {
+  if (!clock.running) return clock;
+  const side = clock.running;
+  const left = remainingMs(clock, tc, side, now) + tc.incrementMs;
+  return {
+    whiteMs: side === 'white' ? left : clock.whiteMs,
+    blackMs: side === 'black' ? left : clock.blackMs,
+    running: side === 'white' ? 'black' : 'white',
+    turnStartedAt: now,
+  };
+}
+
+// Freeze both clocks, e.g. when the game ends
+export function stopClock(clock: ClockState, tc: TimeControl, now: number = Date.now()): ClockState {
+  if (!clock.running) return clock;
+  return {
+    whiteMs: Math.max(0, remainingMs(clock, tc, 'white', now)),
+    blackMs: Math.max(0, remainingMs(clock, tc, 'black', now)),
+    running: null,
+    turnStartedAt: now,
+  };
+}
+
+// Flag-fall loses, unless the opponent has nothing left to mate with
+export function timeoutResult(fen: string, flagged: Side): GameResult {
+  const winner: Side = flagged === 'white' ? 'black' : 'white';
+  const chess = new Chess(fen);
+  const winnerColor = winner === 'white' ? 'w' : 'b';
+  const winnerPieces = chess.board().flat().filter(sq => sq && sq.color === winnerColor && sq.type !== 'k');
+  if (winnerPieces.length === 0 || chess.isInsufficientMaterial()) {
+    return { type: 'draw', reason: 'insufficient' };
+  }
+  return { type: 'timeout', winner };
+}
@@ -0,0 +1,105 @@
+// ============================================================
+// RazorChess — Post-Game Deep Analysis Pipeline
+// Re-evaluates every player move once the game is over
+// ============================================================
+
+import { Chess } from 'chess.js';
+import { AdaptiveEngine } from './adaptive-engine';
+import { GameMove, GameState } from './types';
+import { classifyMoves, isAnalyzed } from './accuracy';
+import { tagMotifs } from './motifs';
+
+const START_FEN = new Chess().fen();
+
+export interface DeepAnalysisProgress {
+  analyzed: number;           // player moves analyzed so far
+  total: number;              // player moves in the game
+  moves: GameMove[];          // the move list with the analysis so far
+}
+
+export interface DeepAnalysisOptions {
+  startFen?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: DeepAnalysisProgress) => void;
+}
+
+// Walk the finished game through analyzePlayerMove and return a copy of the
+// move list with real evaluations, centipawn loss and a class on every
+// player move, and the tactic behind each blunder and miss.
+// Rejects if the signal is aborted; the caller decides what to persist then,
+// and can keep the analyzed part from the last progress report.
+export async function analyzeGameMoves(
+  moves: GameMove[],
+  adaptive: AdaptiveEngine,
+  options: DeepAnalysisOptions = {}
+): Promise<GameMove[]> {
+  const { startFen = START_FEN, signal, onProgress } = options;
+  const total = moves.filter(m => m.isPlayerMove).length;
+  const analyzedMoves = [...moves];
+  let analyzed = 0;
+
+  onProgress?.({ analyzed, total, moves });
+
+  for (let i = 0; i < moves.length; i++) {
+    const move = moves[i];
+    if (!move.isPlayerMove) continue;
+    if (signal?.aborted) throw new Error('Analysis aborted');
+
+    const fenBefore = i > 0 ? moves[i - 1].fen : startFen;
+    const result = await adaptive.analyzePlayerMove(
+      fenBefore,
+      move.fen,
+      move.uci,
+      move.san,
+      move.moveNumber,
+      move.thinkTime,
+      signal
+    );
+
+    // Keep the original timing data and any annotator's comment, take
+    // everything the engine measured
+    analyzedMoves[i] = {
+      ...result,
+      timestamp: move.timestamp,
+      clockMs: move.clockMs,
+      comment: move.comment,
+    };
+
+    analyzed++;
+    onProgress?.({ analyzed, total, moves: [...analyzedMoves] });
+  }
+
+  if (signal?.aborted) throw new Error('Analysis aborted');
+  // Book moves and missed chances only show across the whole game
+  return tagMotifs(classifyMoves(analyzedMoves, startFen), startFen);
+}
+
+// A game whose analysis stopped part-way, with the moves from the last
+// progress report: the analyzed ones get their whole-game classes and motif
+// tags, and tension is measured on them alone.
+export function withPartialAnalysis(
+  gameState: GameState,
+  partialMoves: GameMove[],
+  adaptive: AdaptiveEngine
+): GameState {
+  const moves = tagMotifs(classifyMoves(partialMoves, gameState.startFen), gameState.startFen);
+  return {
+    ...gameState,
+    moves,
+    tensionScore: adaptive.calculateTension(moves.filter(isAnalyzed)),
+  };
+}
+
+// Convenience wrapper that rewrites a finished GameState in one go.
+export async function analyzeFinishedGame(
+  gameState: GameState,
+  adaptive: AdaptiveEngine,
+  options: DeepAnalysisOptions = {}
+): Promise<GameState> {
+  const moves = await analyzeGameMoves(gameState.moves, adaptive, { startFen: gameState.startFen, ...options });
+  return {
+    ...gameState,
+    moves,
+    tensionScore: adaptive.calculateTension(moves),
+  };
+}
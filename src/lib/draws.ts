@@ -0,0 +1,54 @@
+// ============================================================
+// RazorChess — Draw Rules
+// Which draws end the game by themselves, which must be
+// claimed, and how each one is described
+// ============================================================
+
+import { Chess } from 'chess.js';
+import { GameResult } from './types';
+
+export type DrawReason = Extract<GameResult, { type: 'draw' }>['reason'];
+export type ClaimableDraw = Extract<DrawReason, 'repetition' | 'fifty-move'>;
+
+export const DRAW_REASON_LABELS: Record<DrawReason, string> = {
+  agreement: 'by agreement',
+  repetition: 'by threefold repetition',
+  'fifty-move': 'by the fifty-move rule',
+  insufficient: 'by insufficient material',
+  'fivefold-repetition': 'by fivefold repetition',
+  'seventy-five-move': 'by the seventy-five-move rule',
+};
+
+// Board, side to move, castling and en passant: what makes positions "the same"
+function positionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+// How many times the current position has occurred in the game so far
+function repetitions(chess: Chess): number {
+  const history = chess.history({ verbose: true });
+  if (history.length === 0) return 1;
+  const current = positionKey(chess.fen());
+  const fens = [history[0].before, ...history.map(move => move.after)];
+  return fens.filter(fen => positionKey(fen) === current).length;
+}
+
+// The result when the last move ended the game without anyone claiming
+// anything: mate, stalemate, dead position, fivefold or seventy-five moves
+export function gameEndResult(chess: Chess): GameResult | null {
+  if (chess.isCheckmate()) return { type: 'checkmate', winner: chess.turn() === 'w' ? 'black' : 'white' };
+  if (chess.isStalemate()) return { type: 'stalemate' };
+  if (chess.isInsufficientMaterial()) return { type: 'draw', reason: 'insufficient' };
+  if (repetitions(chess) >= 5) return { type: 'draw', reason: 'fivefold-repetition' };
+  // Checked after mate: a mate on the 150th half-move still stands
+  const halfmoves = parseInt(chess.fen().split(' ')[4]) || 0;
+  if (halfmoves >= 150) return { type: 'draw', reason: 'seventy-five-move' };
+  return null;
+}
+
+// A draw the side to move may claim here, or null
+export function claimableDraw(chess: Chess): ClaimableDraw | null {
+  if (chess.isThreefoldRepetition()) return 'repetition';
+  if (chess.isDrawByFiftyMoves()) return 'fifty-move';
+  return null;
+}
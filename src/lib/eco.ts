@@ -0,0 +1,123 @@
+// ============================================================
+// RazorChess — ECO Classification & Opening Explorer
+// Openings are matched by position (EPD), so transpositions
+// resolve to the same name whatever the move order
+// ============================================================
+
+import { Chess } from 'chess.js';
+import { GameMove, SavedGame } from './types';
+import { ECO_ROWS } from './eco-data';
+
+const START_FEN = new Chess().fen();
+
+export interface EcoOpening {
+  eco: string;                // A00–E99
+  name: string;
+  moves: string;              // main SAN line from the start
+}
+
+export interface Continuation {
+  san: string;
+  opening: EcoOpening | null; // named position the move reaches, if any
+  games: number;              // user's games that played it from here
+  wins: number;
+  draws: number;
+  losses: number;
+}
+
+type MoveStats = Pick<Continuation, 'games' | 'wins' | 'draws' | 'losses'>;
+
+// EPD position key → SAN played from it → the user's results
+export type HistoryIndex = Map<string, Map<string, MoveStats>>;
+
+let byPosition: Map<string, EcoOpening> | null = null;
+
+// Board, side to move, castling and en passant: the FEN without move counters
+export function positionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+function ecoIndex(): Map<string, EcoOpening> {
+  if (!byPosition) {
+    byPosition = new Map();
+    for (const [eco, name, moves, epd] of ECO_ROWS) {
+      // A few lines share a position; the first (broadest) name wins
+      if (!byPosition.has(epd)) byPosition.set(epd, { eco, name, moves });
+    }
+  }
+  return byPosition;
+}
+
+export function lookupOpening(fen: string): EcoOpening | null {
+  return ecoIndex().get(positionKey(fen)) ?? null;
+}
+
+// The deepest named position reached in a game. Play continues to be
+// classified by its last book position after it leaves theory.
+export function identifyOpening(startFen: string, moves: Pick<GameMove, 'fen'>[]): EcoOpening | null {
+  for (let i = moves.length - 1; i >= 0; i--) {
+    const opening = lookupOpening(moves[i].fen);
+    if (opening) return opening;
+  }
+  return lookupOpening(startFen);
+}
+
+export function formatOpening(opening: EcoOpening | null): string {
+  return opening ? `${opening.eco} ${opening.name}` : 'Unknown Opening';
+}
+
+// 1 win, 0.5 draw, 0 loss from the user's side, or null if unfinished
+function playerScore(game: SavedGame): number | null {
+  if (!game.result) return null;
+  if ('winner' in game.result) return game.result.winner === game.playerColor ? 1 : 0;
+  return 0.5;
+}
+
+// Index every position of the user's finished games by the move played from it
+export function indexHistory(games: SavedGame[]): HistoryIndex {
+  const index: HistoryIndex = new Map();
+
+  for (const game of games) {
+    const score = playerScore(game);
+    if (score === null) continue;
+    // A repeated position counts once per game
+    const seen = new Set<string>();
+
+    game.moves.forEach((move, i) => {
+      const before = positionKey(i > 0 ? game.moves[i - 1].fen : game.startFen ?? START_FEN);
+      const key = `${before}|${move.san}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      let moves = index.get(before);
+      if (!moves) index.set(before, moves = new Map());
+      const stats = moves.get(move.san) ?? { games: 0, wins: 0, draws: 0, losses: 0 };
+      stats.games++;
+      if (score === 1) stats.wins++;
+      else if (score === 0) stats.losses++;
+      else stats.draws++;
+      moves.set(move.san, stats);
+    });
+  }
+  return index;
+}
+
+// Legal moves from `fen` that lead to a named opening or that the user has
+// played here before, most-played first
+export function exploreContinuations(fen: string, history: HistoryIndex): Continuation[] {
+  const played = history.get(positionKey(fen));
+  const continuations: Continuation[] = [];
+
+  for (const move of new Chess(fen).moves({ verbose: true })) {
+    const opening = lookupOpening(move.after);
+    const stats = played?.get(move.san);
+    if (!opening && !stats) continue;
+    continuations.push({
+      san: move.san,
+      opening,
+      ...(stats ?? { games: 0, wins: 0, draws: 0, losses: 0 }),
+    });
+  }
+
+  return continuations.sort((a, b) => b.games - a.games);
+}
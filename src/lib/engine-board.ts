@@ -0,0 +1,526 @@
+// ============================================================
+// RazorChess — Search Board
+// Compact 0x88 board with make/unmake and Zobrist hashing,
+// used by the engine worker instead of chess.js in the search
+// ============================================================
+
+export const WHITE = 0;
+export const BLACK = 1;
+
+export const PAWN = 1;
+export const KNIGHT = 2;
+export const BISHOP = 3;
+export const ROOK = 4;
+export const QUEEN = 5;
+export const KING = 6;
+
+// Pieces are `type | color << 3`; 0 is an empty square
+export const pieceType = (piece: number) => piece & 7;
+export const pieceColor = (piece: number) => piece >> 3;
+export const makePiece = (type: number, color: number) => type | (color << 3);
+
+// Move layout: from (7 bits) | to (7 bits) | promotion type (3 bits) | flags
+export const FLAG_CAPTURE = 1 << 17;
+export const FLAG_EP = 1 << 18;
+export const FLAG_CASTLE = 1 << 19;
+export const FLAG_DOUBLE = 1 << 20;
+
+export const moveFrom = (move: number) => move & 0x7f;
+export const moveTo = (move: number) => (move >> 7) & 0x7f;
+export const movePromotion = (move: number) => (move >> 14) & 7;
+
+const encodeMove = (from: number, to: number, promotion: number, flags: number) =>
+  from | (to << 7) | (promotion << 14) | flags;
+
+const KNIGHT_OFFSETS = [33, 31, 18, 14, -33, -31, -18, -14];
+const KING_OFFSETS = [1, -1, 16, -16, 15, 17, -15, -17];
+const BISHOP_OFFSETS = [15, 17, -15, -17];
+const ROOK_OFFSETS = [1, -1, 16, -16];
+
+const CASTLE_WK = 1;
+const CASTLE_WQ = 2;
+const CASTLE_BK = 4;
+const CASTLE_BQ = 8;
+
+const PIECE_CHARS = ' pnbrqk';
+const MAX_HISTORY = 1024;
+
+// Rights that survive a move touching each square
+const CASTLE_MASK = new Uint8Array(128).fill(15);
+CASTLE_MASK[0x04] = 15 & ~(CASTLE_WK | CASTLE_WQ);
+CASTLE_MASK[0x00] = 15 & ~CASTLE_WQ;
+CASTLE_MASK[0x07] = 15 & ~CASTLE_WK;
+CASTLE_MASK[0x74] = 15 & ~(CASTLE_BK | CASTLE_BQ);
+CASTLE_MASK[0x70] = 15 & ~CASTLE_BQ;
+CASTLE_MASK[0x77] = 15 & ~CASTLE_BK;
+
+// Deterministic 32-bit xorshift so hashes are stable between sessions
+let seed = 0x9e3779b9;
+function random32(): number {
+  seed ^= seed << 13;
+  seed ^= seed >>> 17;
+  seed ^= seed << 5;
+  return seed >>> 0;
+}
+
+function randomTable(size: number): [Uint32Array, Uint32Array] {
+  const lo = new Uint32Array(size);
+  const hi = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    lo[i] = random32();
+    hi[i] = random32();
+  }
+  return [lo, hi];
+}
+
+const [PIECE_KEY_LO, PIECE_KEY_HI] = randomTable(16 * 128);
+const [CASTLE_KEY_LO, CASTLE_KEY_HI] = randomTable(16);
+const [EP_KEY_LO, EP_KEY_HI] = randomTable(8);
+const SIDE_KEY_LO = random32();
+const SIDE_KEY_HI = random32();
+
+export function squareName(sq: number): string {
+  return 'abcdefgh'[sq & 7] + ((sq >> 4) + 1);
+}
+
+export function parseSquare(name: string): number {
+  return (name.charCodeAt(1) - 49) * 16 + (name.charCodeAt(0) - 97);
+}
+
+export function moveToUci(move: number): string {
+  const promotion = movePromotion(move);
+  return squareName(moveFrom(move)) + squareName(moveTo(move)) + (promotion ? PIECE_CHARS[promotion] : '');
+}
+
+export class SearchBoard {
+  board = new Uint8Array(128);
+  side = WHITE;
+  castling = 0;
+  ep = -1;
+  halfmove = 0;
+  fullmove = 1;
+  kings = [0, 0];
+  hashLo = 0;
+  hashHi = 0;
+
+  // Undo stack, indexed by the number of moves made since setFen
+  private ply = 0;
+  private undoMove = new Int32Array(MAX_HISTORY);
+  private undoCaptured = new Uint8Array(MAX_HISTORY);
+  private undoCastling = new Uint8Array(MAX_HISTORY);
+  private undoEp = new Int16Array(MAX_HISTORY);
+  private undoHalfmove = new Uint16Array(MAX_HISTORY);
+  private historyLo = new Uint32Array(MAX_HISTORY);
+  private historyHi = new Uint32Array(MAX_HISTORY);
+
+  constructor(fen?: string) {
+    if (fen) this.setFen(fen);
+  }
+
+  setFen(fen: string): void {
+    const [placement, side = 'w', castling = '-', ep = '-', halfmove = '0', fullmove = '1'] = fen.trim().split(/\s+/);
+    this.board.fill(0);
+    let rank = 7;
+    let file = 0;
+    for (const ch of placement) {
+      if (ch === '/') {
+        rank--;
+        file = 0;
+      } else if (ch >= '1' && ch <= '8') {
+        file += parseInt(ch);
+      } else {
+        const type = PIECE_CHARS.indexOf(ch.toLowerCase());
+        if (type <= 0) throw new Error(`Invalid FEN piece: ${ch}`);
+        const color = ch === ch.toLowerCase() ? BLACK : WHITE;
+        const sq = rank * 16 + file;
+        this.board[sq] = makePiece(type, color);
+        if (type === KING) this.kings[color] = sq;
+        file++;
+      }
+    }
+
+    this.side = side === 'b' ? BLACK : WHITE;
+    this.castling =
+      (castling.includes('K') ? CASTLE_WK : 0) |
+      (castling.includes('Q') ? CASTLE_WQ : 0) |
+      (castling.includes('k') ? CASTLE_BK : 0) |
+      (castling.includes('q') ? CASTLE_BQ : 0);
+    this.ep = ep !== '-' ? parseSquare(ep) : -1;
+    this.halfmove = parseInt(halfmove) || 0;
+    this.fullmove = parseInt(fullmove) || 1;
+    this.ply = 0;
+    this.computeHash();
+  }
+
+  private computeHash(): void {
+    let lo = 0;
+    let hi = 0;
+    for (let sq = 0; sq < 128; sq++) {
+      if (sq & 0x88) { sq += 7; continue; }
+      const piece = this.board[sq];
+      if (piece) {
+        lo ^= PIECE_KEY_LO[piece * 128 + sq];
+        hi ^= PIECE_KEY_HI[piece * 128 + sq];
+      }
+    }
+    lo ^= CASTLE_KEY_LO[this.castling];
+    hi ^= CASTLE_KEY_HI[this.castling];
+    if (this.ep >= 0) {
+      lo ^= EP_KEY_LO[this.ep & 7];
+      hi ^= EP_KEY_HI[this.ep & 7];
+    }
+    if (this.side === BLACK) {
+      lo ^= SIDE_KEY_LO;
+      hi ^= SIDE_KEY_HI;
+    }
+    this.hashLo = lo >>> 0;
+    this.hashHi = hi >>> 0;
+  }
+
+  private togglePiece(piece: number, sq: number): void {
+    this.hashLo = (this.hashLo ^ PIECE_KEY_LO[piece * 128 + sq]) >>> 0;
+    this.hashHi = (this.hashHi ^ PIECE_KEY_HI[piece * 128 + sq]) >>> 0;
+  }
+
+  isAttacked(sq: number, by: number): boolean {
+    const board = this.board;
+
+    // Pawns attack diagonally forward, so look backwards from the target
+    const pawn = makePiece(PAWN, by);
+    if (by === WHITE) {
+      if (!((sq - 15) & 0x88) && board[sq - 15] === pawn) return true;
+      if (!((sq - 17) & 0x88) && board[sq - 17] === pawn) return true;
+    } else {
+      if (!((sq + 15) & 0x88) && board[sq + 15] === pawn) return true;
+      if (!((sq + 17) & 0x88) && board[sq + 17] === pawn) return true;
+    }
+
+    const knight = makePiece(KNIGHT, by);
+    for (const offset of KNIGHT_OFFSETS) {
+      const target = sq + offset;
+      if (!(target & 0x88) && board[target] === knight) return true;
+    }
+
+    const king = makePiece(KING, by);
+    for (const offset of KING_OFFSETS) {
+      const target = sq + offset;
+      if (!(target & 0x88) && board[target] === king) return true;
+    }
+
+    const bishop = makePiece(BISHOP, by);
+    const rook = makePiece(ROOK, by);
+    const queen = makePiece(QUEEN, by);
+
+    for (const offset of BISHOP_OFFSETS) {
+      let target = sq + offset;
+      while (!(target & 0x88)) {
+        const piece = board[target];
+        if (piece) {
+          if (piece === bishop || piece === queen) return true;
+          break;
+        }
+        target += offset;
+      }
+    }
+
+    for (const offset of ROOK_OFFSETS) {
+      let target = sq + offset;
+      while (!(target & 0x88)) {
+        const piece = board[target];
+        if (piece) {
+          if (piece === rook || piece === queen) return true;
+          break;
+        }
+        target += offset;
+      }
+    }
+
+    return false;
+  }
+
+  inCheck(color: number = this.side): boolean {
+    return this.isAttacked(this.kings[color], color ^ 1);
+  }
+
+  // Pseudo-legal moves into `out`; returns the count. Legality is checked
+  // after make() so the generator stays simple and fast.
+  generateMoves(out: Int32Array, capturesOnly: boolean = false): number {
+    const board = this.board;
+    const us = this.side;
+    const them = us ^ 1;
+    let n = 0;
+
+    for (let from = 0; from < 128; from++) {
+      if (from & 0x88) { from += 7; continue; }
+      const piece = board[from];
+      if (!piece || pieceColor(piece) !== us) continue;
+      const type = pieceType(piece);
+
+      if (type === PAWN) {
+        const dir = us === WHITE ? 16 : -16;
+        const startRank = us === WHITE ? 1 : 6;
+        const promoRank = us === WHITE ? 7 : 0;
+        const one = from + dir;
+
+        if (!(one & 0x88) && !board[one]) {
+          if ((one >> 4) === promoRank) {
+            for (let promo = QUEEN; promo >= KNIGHT; promo--) out[n++] = encodeMove(from, one, promo, 0);
+          } else if (!capturesOnly) {
+            out[n++] = encodeMove(from, one, 0, 0);
+            const two = one + dir;
+            if ((from >> 4) === startRank && !board[two]) out[n++] = encodeMove(from, two, 0, FLAG_DOUBLE);
+          }
+        }
+
+        for (const side of [dir - 1, dir + 1]) {
+          const to = from + side;
+          if (to & 0x88) continue;
+          const target = board[to];
+          if (target && pieceColor(target) === them) {
+            if ((to >> 4) === promoRank) {
+              for (let promo = QUEEN; promo >= KNIGHT; promo--) out[n++] = encodeMove(from, to, promo, FLAG_CAPTURE);
+            } else {
+              out[n++] = encodeMove(from, to, 0, FLAG_CAPTURE);
+            }
+          } else if (to === this.ep) {
+            out[n++] = encodeMove(from, to, 0, FLAG_CAPTURE | FLAG_EP);
+          }
+        }
+        continue;
+      }
+
+      if (type === KNIGHT || type === KING) {
+        const offsets = type === KNIGHT ? KNIGHT_OFFSETS : KING_OFFSETS;
+        for (const offset of offsets) {
+          const to = from + offset;
+          if (to & 0x88) continue;
+          const target = board[to];
+          if (!target) {
+            if (!capturesOnly) out[n++] = encodeMove(from, to, 0, 0);
+          } else if (pieceColor(target) === them) {
+            out[n++] = encodeMove(from, to, 0, FLAG_CAPTURE);
+          }
+        }
+        if (type === KING && !capturesOnly) n = this.generateCastling(out, n);
+        continue;
+      }
+
+      const offsets = type === BISHOP ? BISHOP_OFFSETS : type === ROOK ? ROOK_OFFSETS : KING_OFFSETS;
+      for (const offset of offsets) {
+        let to = from + offset;
+        while (!(to & 0x88)) {
+          const target = board[to];
+          if (!target) {
+            if (!capturesOnly) out[n++] = encodeMove(from, to, 0, 0);
+          } else {
+            if (pieceColor(target) === them) out[n++] = encodeMove(from, to, 0, FLAG_CAPTURE);
+            break;
+          }
+          to += offset;
+        }
+      }
+    }
+
+    return n;
+  }
+
+  private generateCastling(out: Int32Array, n: number): number {
+    const board = this.board;
+    const us = this.side;
+    const them = us ^ 1;
+    const base = us === WHITE ? 0x00 : 0x70;
+    const kingSide = us === WHITE ? CASTLE_WK : CASTLE_BK;
+    const queenSide = us === WHITE ? CASTLE_WQ : CASTLE_BQ;
+
+    if (!(this.castling & (kingSide | queenSide)) || this.kings[us] !== base + 4) return n;
+    if (this.isAttacked(base + 4, them)) return n;
+
+    if ((this.castling & kingSide) && !board[base + 5] && !board[base + 6] &&
+        !this.isAttacked(base + 5, them) && !this.isAttacked(base + 6, them)) {
+      out[n++] = encodeMove(base + 4, base + 6, 0, FLAG_CASTLE);
+    }
+    if ((this.castling & queenSide) && !board[base + 3] && !board[base + 2] && !board[base + 1] &&
+        !this.isAttacked(base + 3, them) && !this.isAttacked(base + 2, them)) {
+      out[n++] = encodeMove(base + 4, base + 2, 0, FLAG_CASTLE);
+    }
+    return n;
+  }
+
+  // Plays a pseudo-legal move. Returns false (with the move already undone)
+  // if it leaves the mover's king in check.
+  makeMove(move: number): boolean {
+    const board = this.board;
+    const us = this.side;
+    const from = moveFrom(move);
+    const to = moveTo(move);
+    const piece = board[from];
+    const ply = this.ply;
+
+    this.undoMove[ply] = move;
+    this.undoCastling[ply] = this.castling;
+    this.undoEp[ply] = this.ep;
+    this.undoHalfmove[ply] = this.halfmove;
+    this.historyLo[ply] = this.hashLo;
+    this.historyHi[ply] = this.hashHi;
+
+    let captured = 0;
+    if (move & FLAG_EP) {
+      const capSq = to + (us === WHITE ? -16 : 16);
+      captured = board[capSq];
+      board[capSq] = 0;
+      this.togglePiece(captured, capSq);
+    } else if (board[to]) {
+      captured = board[to];
+      this.togglePiece(captured, to);
+    }
+    this.undoCaptured[ply] = captured;
+
+    const promotion = movePromotion(move);
+    const placed = promotion ? makePiece(promotion, us) : piece;
+    board[from] = 0;
+    this.togglePiece(piece, from);
+    board[to] = placed;
+    this.togglePiece(placed, to);
+
+    if (pieceType(piece) === KING) {
+      this.kings[us] = to;
+      if (move & FLAG_CASTLE) {
+        const rook = makePiece(ROOK, us);
+        const [rookFrom, rookTo] = to > from ? [from + 3, from + 1] : [from - 4, from - 1];
+        board[rookFrom] = 0;
+        this.togglePiece(rook, rookFrom);
+        board[rookTo] = rook;
+        this.togglePiece(rook, rookTo);
+      }
+    }
+
+    this.hashLo = (this.hashLo ^ CASTLE_KEY_LO[this.castling]) >>> 0;
+    this.hashHi = (this.hashHi ^ CASTLE_KEY_HI[this.castling]) >>> 0;
+    this.castling &= CASTLE_MASK[from] & CASTLE_MASK[to];
+    this.hashLo = (this.hashLo ^ CASTLE_KEY_LO[this.castling]) >>> 0;
+    this.hashHi = (this.hashHi ^ CASTLE_KEY_HI[this.castling]) >>> 0;
+
+    if (this.ep >= 0) {
+      this.hashLo = (this.hashLo ^ EP_KEY_LO[this.ep & 7]) >>> 0;
+      this.hashHi = (this.hashHi ^ EP_KEY_HI[this.ep & 7]) >>> 0;
+    }
+    this.ep = move & FLAG_DOUBLE ? (from + to) >> 1 : -1;
+    if (this.ep >= 0) {
+      this.hashLo = (this.hashLo ^ EP_KEY_LO[this.ep & 7]) >>> 0;
+      this.hashHi = (this.hashHi ^ EP_KEY_HI[this.ep & 7]) >>> 0;
+    }
+
+    this.halfmove = captured || pieceType(piece) === PAWN ? 0 : this.halfmove + 1;
+    if (us === BLACK) this.fullmove++;
+    this.side = us ^ 1;
+    this.hashLo = (this.hashLo ^ SIDE_KEY_LO) >>> 0;
+    this.hashHi = (this.hashHi ^ SIDE_KEY_HI) >>> 0;
+    this.ply++;
+
+    if (this.isAttacked(this.kings[us], us ^ 1)) {
+      this.unmakeMove();
+      return false;
+    }
+    return true;
+  }
+
+  unmakeMove(): void {
+    const ply = --this.ply;
+    const move = this.undoMove[ply];
+    const board = this.board;
+    const us = this.side ^ 1;
+    const from = moveFrom(move);
+    const to = moveTo(move);
+    const placed = board[to];
+    const piece = movePromotion(move) ? makePiece(PAWN, us) : placed;
+
+    board[from] = piece;
+    board[to] = 0;
+    const captured = this.undoCaptured[ply];
+    if (move & FLAG_EP) {
+      board[to + (us === WHITE ? -16 : 16)] = captured;
+    } else {
+      board[to] = captured;
+    }
+
+    if (pieceType(piece) === KING) {
+      this.kings[us] = from;
+      if (move & FLAG_CASTLE) {
+        const [rookFrom, rookTo] = to > from ? [from + 3, from + 1] : [from - 4, from - 1];
+        board[rookFrom] = board[rookTo];
+        board[rookTo] = 0;
+      }
+    }
+
+    if (us === BLACK) this.fullmove--;
+    this.side = us;
+    this.castling = this.undoCastling[ply];
+    this.ep = this.undoEp[ply];
+    this.halfmove = this.undoHalfmove[ply];
+    this.hashLo = this.historyLo[ply];
+    this.hashHi = this.historyHi[ply];
+  }
+
+  // Passing move for null-move pruning
+  makeNullMove(): void {
+    const ply = this.ply;
+    this.undoMove[ply] = 0;
+    this.undoEp[ply] = this.ep;
+    this.undoHalfmove[ply] = this.halfmove;
+    this.historyLo[ply] = this.hashLo;
+    this.historyHi[ply] = this.hashHi;
+    if (this.ep >= 0) {
+      this.hashLo = (this.hashLo ^ EP_KEY_LO[this.ep & 7]) >>> 0;
+      this.hashHi = (this.hashHi ^ EP_KEY_HI[this.ep & 7]) >>> 0;
+    }
+    this.ep = -1;
+    this.halfmove++;
+    this.side ^= 1;
+    this.hashLo = (this.hashLo ^ SIDE_KEY_LO) >>> 0;
+    this.hashHi = (this.hashHi ^ SIDE_KEY_HI) >>> 0;
+    this.ply++;
+  }
+
+  unmakeNullMove(): void {
+    const ply = --this.ply;
+    this.side ^= 1;
+    this.ep = this.undoEp[ply];
+    this.halfmove = this.undoHalfmove[ply];
+    this.hashLo = this.historyLo[ply];
+    this.hashHi = this.historyHi[ply];
+  }
+
+  // Same position seen earlier since the last irreversible move
+  isRepetition(): boolean {
+    const limit = Math.max(0, this.ply - this.halfmove);
+    for (let i = this.ply - 2; i >= limit; i -= 2) {
+      if (this.historyLo[i] === this.hashLo && this.historyHi[i] === this.hashHi) return true;
+    }
+    return false;
+  }
+
+  // Bare kings or a single minor piece can never mate
+  isInsufficientMaterial(): boolean {
+    let minors = 0;
+    for (let sq = 0; sq < 128; sq++) {
+      if (sq & 0x88) { sq += 7; continue; }
+      const type = pieceType(this.board[sq]);
+      if (type === PAWN || type === ROOK || type === QUEEN) return false;
+      if (type === KNIGHT || type === BISHOP) minors++;
+    }
+    return minors <= 1;
+  }
+
+  // Non-pawn material for the side to move (null-move zugzwang guard)
+  hasPieces(color: number): boolean {
+    for (let sq = 0; sq < 128; sq++) {
+      if (sq & 0x88) { sq += 7; continue; }
+      const piece = this.board[sq];
+      if (piece && pieceColor(piece) === color) {
+        const type = pieceType(piece);
+        if (type !== PAWN && type !== KING) return true;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,95 @@
+// ============================================================
+// RazorChess — Engine Factory
+// Picks Stockfish WASM when it is available, SimpleEngine otherwise
+// ============================================================
+
+import { ChessEngineInterface } from './engine-interface';
+import { SimpleEngine } from './simple-engine';
+import { DEFAULT_STOCKFISH_PATH, StockfishEngine } from './stockfish';
+
+export type EngineBackend = 'stockfish' | 'simple';
+export type EnginePreference = EngineBackend | 'auto';
+
+export interface EngineHandle {
+  engine: ChessEngineInterface;
+  backend: EngineBackend;
+}
+
+const PREFERENCE_KEY = 'razorchess_engine_preference';
+const STOCKFISH_INIT_TIMEOUT_MS = 10000;
+
+// Builds we know how to drive, in order of preference. The second entry is
+// what the stockfish.js npm package ships (copy it into public/stockfish/).
+const STOCKFISH_CANDIDATES = [
+  DEFAULT_STOCKFISH_PATH,
+  '/stockfish/stockfish.wasm.js',
+];
+
+export const ENGINE_LABELS: Record<EngineBackend, string> = {
+  stockfish: 'Stockfish (WASM)',
+  simple: 'Built-in engine',
+};
+
+// Find the first Stockfish build actually served by the app
+async function probeStockfish(): Promise<string | null> {
+  if (typeof window === 'undefined' || typeof WebAssembly === 'undefined') return null;
+
+  for (const path of STOCKFISH_CANDIDATES) {
+    try {
+      const res = await fetch(path, { method: 'HEAD', cache: 'no-store' });
+      // Dev servers answer unknown paths with an HTML 404 page
+      const type = res.headers.get('content-type') || '';
+      if (res.ok && !type.includes('text/html')) return path;
+    } catch {
+      // Network errors just mean this candidate isn't there
+    }
+  }
+  return null;
+}
+
+async function startStockfish(path: string): Promise<StockfishEngine> {
+  const engine = new StockfishEngine(path);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      engine.init(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Stockfish did not answer uci in time')), STOCKFISH_INIT_TIMEOUT_MS);
+      }),
+    ]);
+    return engine;
+  } catch (err) {
+    engine.destroy();
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function createEngine(preference: EnginePreference = 'auto'): Promise<EngineHandle> {
+  if (preference !== 'simple') {
+    const path = await probeStockfish();
+    if (path) {
+      try {
+        return { engine: await startStockfish(path), backend: 'stockfish' };
+      } catch (err) {
+        console.warn('[EngineFactory] Stockfish failed to start, falling back to SimpleEngine:', err);
+      }
+    } else if (preference === 'stockfish') {
+      console.warn('[EngineFactory] No Stockfish build found in public/stockfish, falling back to SimpleEngine');
+    }
+  }
+
+  return { engine: new SimpleEngine(6), backend: 'simple' };
+}
+
+export function loadEnginePreference(): EnginePreference {
+  if (typeof window === 'undefined') return 'auto';
+  const stored = localStorage.getItem(PREFERENCE_KEY);
+  return stored === 'stockfish' || stored === 'simple' ? stored : 'auto';
+}
+
+export function saveEnginePreference(preference: EnginePreference): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(PREFERENCE_KEY, preference);
+}
@@ -5,8 +5,54 @@
 
 import { MoveAnalysis, PositionEval } from './types';
 
+// Mirrors the UCI `go` parameters. Any combination may be given; the search
+// ends at whichever limit is hit first.
+export interface SearchLimits {
+  depth?: number;
+  movetime?: number;          // ms for this search
+  nodes?: number;
+  wtime?: number;             // clock-based budget, as in `go wtime ... btime ...`
+  btime?: number;
+  winc?: number;
+  binc?: number;
+  movestogo?: number;
+}
+
+export interface SearchOptions {
+  signal?: AbortSignal;       // abort stops the search; the result says 'aborted'
+  timeoutMs?: number;         // safety net on top of the limits
+}
+
 export interface ChessEngineInterface {
-  evaluate(fen: string, depth?: number, multiPV?: number): Promise<PositionEval>;
+  evaluate(fen: string, limits?: number | SearchLimits, multiPV?: number, options?: SearchOptions): Promise<PositionEval>;
+  // Yields a partial result per completed depth; the last value is the final result.
+  // Breaking out of the loop stops the search.
+  evaluateStream(fen: string, limits?: number | SearchLimits, multiPV?: number, options?: SearchOptions): AsyncIterable<PositionEval>;
   getTopMoves(fen: string, count?: number, depth?: number): Promise<MoveAnalysis[]>;
+  newGame(): Promise<void>;   // clears hash/engine state; only between games
   destroy(): void;
 }
+
+// Plain depth numbers are still accepted everywhere a SearchLimits is
+export function normalizeLimits(limits: number | SearchLimits | undefined, defaultDepth: number): SearchLimits {
+  if (typeof limits === 'number') return { depth: limits };
+  if (!limits || Object.values(limits).every(v => v === undefined)) return { depth: defaultDepth };
+  return limits;
+}
+
+export function hasClock(limits: SearchLimits): boolean {
+  return limits.wtime !== undefined || limits.btime !== undefined;
+}
+
+// Time to spend on one move out of a clock budget, for backends without
+// their own time manager: an even share of the remaining moves plus most
+// of the increment, never more than a fifth of what is left.
+export function timeForMove(limits: SearchLimits, whiteToMove: boolean): number | undefined {
+  const remaining = whiteToMove ? limits.wtime : limits.btime;
+  if (remaining === undefined) return limits.movetime;
+  const increment = (whiteToMove ? limits.winc : limits.binc) ?? 0;
+  const movesToGo = limits.movestogo ?? 30;
+  const budget = Math.min(remaining / movesToGo + increment * 0.8, remaining * 0.2);
+  const clockTime = Math.max(20, Math.floor(budget));
+  return limits.movetime !== undefined ? Math.min(limits.movetime, clockTime) : clockTime;
+}
@@ -1,9 +1,27 @@
 // ============================================================
 // RazorChess — Engine Web Worker
 // Runs SimpleEngine off the main thread so UI never freezes
+// Iterative deepening alpha-beta over a 0x88 board with a
+// transposition table, killer/history ordering and quiescence
 // ============================================================
 
-import { Chess, Move } from 'chess.js';
+import {
+  FLAG_CAPTURE,
+  KING,
+  PAWN,
+  SearchBoard,
+  WHITE,
+  moveFrom,
+  movePromotion,
+  moveTo,
+  moveToUci,
+  pieceColor,
+  pieceType,
+} from './engine-board';
+import { uciLineToSan } from './notation';
+import { SearchLimits, timeForMove } from './engine-interface';
+import { TablebasePiece, probePieces, tablebaseEval } from './tablebase';
+import { StopReason } from './types';
 
 // Piece values in centipawns
 const PIECE_VALUES: Record<string, number> = {
@@ -74,112 +92,552 @@ const PST: Record<string, number[]> = {
   ],
 };
 
-function alphaBeta(
-  chess: Chess,
-  depth: number,
-  alpha: number,
-  beta: number,
-  isMaximizing: boolean
-): number {
-  if (depth === 0 || chess.isGameOver()) {
-    return staticEval(chess);
-  }
-
-  const moves = chess.moves({ verbose: true });
-  moves.sort((a, b) => {
-    const aScore = a.captured ? PIECE_VALUES[a.captured] : 0;
-    const bScore = b.captured ? PIECE_VALUES[b.captured] : 0;
-    return bScore - aScore;
-  });
+// King wants the centre once the queens and rooks come off
+const KING_ENDGAME_PST = [
+  -50,-40,-30,-20,-20,-30,-40,-50,
+  -30,-20,-10,  0,  0,-10,-20,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-30,  0,  0,  0,  0,-30,-30,
+  -50,-30,-30,-30,-30,-30,-30,-50,
+];
 
-  if (isMaximizing) {
-    let maxEval = -Infinity;
-    for (const move of moves) {
-      chess.move(move);
-      const score = alphaBeta(chess, depth - 1, alpha, beta, false);
-      chess.undo();
-      maxEval = Math.max(maxEval, score);
-      alpha = Math.max(alpha, score);
-      if (beta <= alpha) break;
-    }
-    return maxEval;
-  } else {
-    let minEval = Infinity;
-    for (const move of moves) {
-      chess.move(move);
-      const score = alphaBeta(chess, depth - 1, alpha, beta, true);
-      chess.undo();
-      minEval = Math.min(minEval, score);
-      beta = Math.min(beta, score);
-      if (beta <= alpha) break;
+const PIECE_LETTERS = ' pnbrqk';
+const PHASE_WEIGHTS = [0, 0, 1, 1, 2, 4, 0];
+const MAX_PHASE = 24;
+
+// Material + PST per piece code and 0x88 square, white-relative sign.
+// The tables above are written from White's side with rank 8 first.
+const MIDGAME_SCORE = new Int32Array(16 * 128);
+const ENDGAME_KING_SCORE = new Int32Array(16 * 128);
+for (let type = PAWN; type <= KING; type++) {
+  const letter = PIECE_LETTERS[type];
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) continue;
+    const rank = sq >> 4;
+    const file = sq & 7;
+    const whiteIdx = (7 - rank) * 8 + file;
+    const blackIdx = rank * 8 + file;
+    const material = type === KING ? 0 : PIECE_VALUES[letter];
+    MIDGAME_SCORE[type * 128 + sq] = material + PST[letter][whiteIdx];
+    MIDGAME_SCORE[(type | 8) * 128 + sq] = -(material + PST[letter][blackIdx]);
+    if (type === KING) {
+      ENDGAME_KING_SCORE[type * 128 + sq] = KING_ENDGAME_PST[whiteIdx];
+      ENDGAME_KING_SCORE[(type | 8) * 128 + sq] = -KING_ENDGAME_PST[blackIdx];
     }
-    return minEval;
   }
 }
 
-function staticEval(chess: Chess): number {
-  if (chess.isCheckmate()) {
-    return chess.turn() === 'w' ? -99999 : 99999;
+const ORDER_VALUES = [0, 100, 320, 330, 500, 900, 20000];
+
+const MATE = 30000;
+const MATE_BOUND = MATE - 1000;
+const INFINITY = 32000;
+const MAX_PLY = 64;
+const TIME_CHECK_INTERVAL = 2048;
+
+// Transposition table: indexed by the low hash word, verified by the high one
+const TT_SIZE = 1 << 18;
+const TT_MASK = TT_SIZE - 1;
+const TT_EXACT = 1;
+const TT_LOWER = 2;
+const TT_UPPER = 3;
+const ttKey = new Uint32Array(TT_SIZE);
+const ttMove = new Int32Array(TT_SIZE);
+const ttScore = new Int32Array(TT_SIZE);
+const ttDepth = new Int8Array(TT_SIZE);
+const ttFlag = new Uint8Array(TT_SIZE);
+
+const killers = new Int32Array(MAX_PLY * 2);
+const history = new Int32Array(2 * 128 * 128);
+const pvTable = new Int32Array(MAX_PLY * MAX_PLY);
+const pvLength = new Int32Array(MAX_PLY);
+const moveBuffers = Array.from({ length: MAX_PLY + 1 }, () => new Int32Array(256));
+const scoreBuffers = Array.from({ length: MAX_PLY + 1 }, () => new Int32Array(256));
+
+let nodes = 0;
+let maxNodes = Infinity;
+let deadline = Infinity;
+let stopped = false;
+// Only searches that can capture down to three men probe the tablebases
+let probeTables = false;
+
+function clearSearchState(): void {
+  ttFlag.fill(0);
+  killers.fill(0);
+  history.fill(0);
+}
+
+// The exact score of a position with three men or fewer, or null
+function probeBoard(board: SearchBoard, ply: number): number | null {
+  if (board.castling) return null;
+  const pieces: TablebasePiece[] = [];
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) { sq += 7; continue; }
+    const piece = board.board[sq];
+    if (!piece) continue;
+    if (pieces.length === 3) return null;
+    pieces.push({
+      type: PIECE_LETTERS[pieceType(piece)],
+      white: pieceColor(piece) === WHITE,
+      square: (sq >> 4) * 8 + (sq & 7),
+    });
+  }
+  const probe = probePieces(pieces, board.side === WHITE);
+  if (!probe || probe.dtm === null) return probe ? 0 : null;
+  const score = MATE - ply - probe.dtm;
+  return probe.wdl === 'win' ? score : -score;
+}
+
+function countPieces(board: SearchBoard): number {
+  let count = 0;
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) { sq += 7; continue; }
+    if (board.board[sq]) count++;
   }
-  if (chess.isDraw() || chess.isStalemate()) return 0;
+  return count;
+}
 
-  let score = 0;
-  const board = chess.board();
+// Static evaluation from the side to move's point of view
+function evaluatePosition(board: SearchBoard): number {
+  const squares = board.board;
+  let midgame = 0;
+  let kingEndgame = 0;
+  let kingMidgame = 0;
+  let phase = 0;
 
-  for (let rank = 0; rank < 8; rank++) {
-    for (let file = 0; file < 8; file++) {
-      const piece = board[rank][file];
-      if (!piece) continue;
-      const pv = PIECE_VALUES[piece.type] || 0;
-      const pstIdx = piece.color === 'w' ? rank * 8 + file : (7 - rank) * 8 + file;
-      const pstVal = PST[piece.type]?.[pstIdx] || 0;
-      if (piece.color === 'w') { score += pv + pstVal; }
-      else { score -= pv + pstVal; }
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) { sq += 7; continue; }
+    const piece = squares[sq];
+    if (!piece) continue;
+    const type = pieceType(piece);
+    if (type === KING) {
+      kingMidgame += MIDGAME_SCORE[piece * 128 + sq];
+      kingEndgame += ENDGAME_KING_SCORE[piece * 128 + sq];
+    } else {
+      midgame += MIDGAME_SCORE[piece * 128 + sq];
+      phase += PHASE_WEIGHTS[type];
     }
   }
 
+  phase = Math.min(phase, MAX_PHASE);
+  const king = (kingMidgame * phase + kingEndgame * (MAX_PHASE - phase)) / MAX_PHASE;
+  const score = Math.round(midgame + king);
+  return board.side === WHITE ? score : -score;
+}
+
+function scoreToTT(score: number, ply: number): number {
+  if (score > MATE_BOUND) return score + ply;
+  if (score < -MATE_BOUND) return score - ply;
   return score;
 }
 
-function evaluate(fen: string, depth: number, multiPV: number) {
-  const chess = new Chess(fen);
-  const isWhite = chess.turn() === 'w';
-  const moves = chess.moves({ verbose: true });
-  const evaluated: Array<{ move: Move; score: number }> = [];
+function scoreFromTT(score: number, ply: number): number {
+  if (score > MATE_BOUND) return score - ply;
+  if (score < -MATE_BOUND) return score + ply;
+  return score;
+}
+
+function storeTT(board: SearchBoard, depth: number, flag: number, score: number, move: number, ply: number): void {
+  const idx = board.hashLo & TT_MASK;
+  // Depth-preferred, but always replace entries from other positions
+  if (ttFlag[idx] && ttKey[idx] === board.hashHi && ttDepth[idx] > depth && flag !== TT_EXACT) return;
+  ttKey[idx] = board.hashHi;
+  ttMove[idx] = move;
+  ttScore[idx] = scoreToTT(score, ply);
+  ttDepth[idx] = depth;
+  ttFlag[idx] = flag;
+}
 
-  for (const move of moves) {
-    chess.move(move);
-    const score = -alphaBeta(chess, depth - 1, -Infinity, Infinity, !isWhite);
-    chess.undo();
-    evaluated.push({ move, score });
+function scoreMoves(board: SearchBoard, moves: Int32Array, scores: Int32Array, count: number, ply: number, hashMove: number): void {
+  const squares = board.board;
+  const historyBase = board.side * 16384;
+  for (let i = 0; i < count; i++) {
+    const move = moves[i];
+    if (move === hashMove) {
+      scores[i] = 1000000;
+    } else if (move & FLAG_CAPTURE) {
+      // MVV-LVA; en passant lands on an empty square but always takes a pawn
+      const victim = squares[moveTo(move)] ? pieceType(squares[moveTo(move)]) : PAWN;
+      const attacker = pieceType(squares[moveFrom(move)]);
+      scores[i] = 100000 + ORDER_VALUES[victim] * 10 - attacker;
+    } else if (movePromotion(move)) {
+      scores[i] = 90000 + ORDER_VALUES[movePromotion(move)];
+    } else if (move === killers[ply * 2]) {
+      scores[i] = 80000;
+    } else if (move === killers[ply * 2 + 1]) {
+      scores[i] = 79000;
+    } else {
+      scores[i] = Math.min(70000, history[historyBase + moveFrom(move) * 128 + moveTo(move)]);
+    }
   }
+}
 
-  evaluated.sort((a, b) => b.score - a.score);
+// Selection sort step: bring the best remaining move to position `from`
+function pickMove(moves: Int32Array, scores: Int32Array, from: number, count: number): number {
+  let best = from;
+  for (let i = from + 1; i < count; i++) {
+    if (scores[i] > scores[best]) best = i;
+  }
+  if (best !== from) {
+    const move = moves[best]; moves[best] = moves[from]; moves[from] = move;
+    const score = scores[best]; scores[best] = scores[from]; scores[from] = score;
+  }
+  return moves[from];
+}
 
-  const topMoves = evaluated.slice(0, multiPV).map((e, i) => ({
-    move: e.move.from + e.move.to + (e.move.promotion || ''),
-    san: e.move.san,
-    evaluation: isWhite ? e.score : -e.score,
-    depth,
-    isPV: i === 0,
-  }));
+function checkTime(): void {
+  if (++nodes >= maxNodes) stopped = true;
+  else if ((nodes & (TIME_CHECK_INTERVAL - 1)) === 0 && Date.now() > deadline) stopped = true;
+}
+
+function quiesce(board: SearchBoard, alpha: number, beta: number, ply: number): number {
+  checkTime();
+  if (stopped) return 0;
+  pvLength[ply] = ply;
+  if (ply >= MAX_PLY) return evaluatePosition(board);
+
+  const inCheck = board.inCheck();
+  // In check there is no standing pat: every evasion has to be tried
+  if (!inCheck) {
+    const standPat = evaluatePosition(board);
+    if (standPat >= beta) return standPat;
+    if (standPat > alpha) alpha = standPat;
+  }
+
+  const moves = moveBuffers[ply];
+  const scores = scoreBuffers[ply];
+  const count = board.generateMoves(moves, !inCheck);
+  scoreMoves(board, moves, scores, count, ply, 0);
+
+  let legal = 0;
+  for (let i = 0; i < count; i++) {
+    const move = pickMove(moves, scores, i, count);
+    if (!board.makeMove(move)) continue;
+    legal++;
+    const score = -quiesce(board, -beta, -alpha, ply + 1);
+    board.unmakeMove();
+    if (stopped) return 0;
+
+    if (score > alpha) {
+      alpha = score;
+      if (score >= beta) return score;
+    }
+  }
+
+  if (inCheck && legal === 0) return -MATE + ply;
+  return alpha;
+}
+
+function negamax(board: SearchBoard, depth: number, alpha: number, beta: number, ply: number, allowNull: boolean): number {
+  pvLength[ply] = ply;
+
+  if (ply > 0) {
+    if (board.halfmove >= 100 || board.isRepetition() || board.isInsufficientMaterial()) return 0;
+    // Mate distance pruning: no line from here can beat a shorter mate
+    alpha = Math.max(alpha, -MATE + ply);
+    beta = Math.min(beta, MATE - ply - 1);
+    if (alpha >= beta) return alpha;
+
+    if (probeTables) {
+      const exact = probeBoard(board, ply);
+      if (exact !== null) return exact;
+    }
+  }
+
+  const inCheck = board.inCheck();
+  if (inCheck) depth++;
+  if (depth <= 0 || ply >= MAX_PLY) return quiesce(board, alpha, beta, ply);
+
+  checkTime();
+  if (stopped) return 0;
+
+  const idx = board.hashLo & TT_MASK;
+  let hashMove = 0;
+  if (ttFlag[idx] && ttKey[idx] === board.hashHi) {
+    hashMove = ttMove[idx];
+    if (ply > 0 && ttDepth[idx] >= depth) {
+      const score = scoreFromTT(ttScore[idx], ply);
+      const flag = ttFlag[idx];
+      if (flag === TT_EXACT) return score;
+      if (flag === TT_LOWER && score >= beta) return score;
+      if (flag === TT_UPPER && score <= alpha) return score;
+    }
+  }
+
+  const isPvNode = beta - alpha > 1;
+
+  // Null move: if passing still fails high, a real move will too
+  if (allowNull && !inCheck && !isPvNode && depth >= 3 && beta < MATE_BOUND &&
+      board.hasPieces(board.side) && evaluatePosition(board) >= beta) {
+    board.makeNullMove();
+    const score = -negamax(board, depth - 3, -beta, -beta + 1, ply + 1, false);
+    board.unmakeNullMove();
+    if (stopped) return 0;
+    if (score >= beta) return beta;
+  }
+
+  const moves = moveBuffers[ply];
+  const scores = scoreBuffers[ply];
+  const count = board.generateMoves(moves);
+  scoreMoves(board, moves, scores, count, ply, hashMove);
+
+  const alphaOrig = alpha;
+  let bestScore = -INFINITY;
+  let bestMove = 0;
+  let legal = 0;
+
+  for (let i = 0; i < count; i++) {
+    const move = pickMove(moves, scores, i, count);
+    if (!board.makeMove(move)) continue;
+    legal++;
+
+    const quiet = !(move & FLAG_CAPTURE) && !movePromotion(move);
+    let score: number;
+    if (legal === 1) {
+      score = -negamax(board, depth - 1, -beta, -alpha, ply + 1, true);
+    } else {
+      // Late quiet moves get a reduced null-window look first
+      const reduction = quiet && !inCheck && depth >= 3 && legal > 4 ? 1 : 0;
+      score = -negamax(board, depth - 1 - reduction, -alpha - 1, -alpha, ply + 1, true);
+      if (score > alpha && reduction) {
+        score = -negamax(board, depth - 1, -alpha - 1, -alpha, ply + 1, true);
+      }
+      if (score > alpha && score < beta) {
+        score = -negamax(board, depth - 1, -beta, -alpha, ply + 1, true);
+      }
+    }
+    board.unmakeMove();
+    if (stopped) return 0;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = move;
+      if (score > alpha) {
+        alpha = score;
+        pvTable[ply * MAX_PLY + ply] = move;
+        for (let j = ply + 1; j < pvLength[ply + 1]; j++) {
+          pvTable[ply * MAX_PLY + j] = pvTable[(ply + 1) * MAX_PLY + j];
+        }
+        pvLength[ply] = Math.max(ply + 1, pvLength[ply + 1]);
+
+        if (score >= beta) {
+          if (quiet) {
+            if (killers[ply * 2] !== move) {
+              killers[ply * 2 + 1] = killers[ply * 2];
+              killers[ply * 2] = move;
+            }
+            history[board.side * 16384 + moveFrom(move) * 128 + moveTo(move)] += depth * depth;
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  if (legal === 0) return inCheck ? -MATE + ply : 0;
+
+  const flag = bestScore >= beta ? TT_LOWER : bestScore > alphaOrig ? TT_EXACT : TT_UPPER;
+  storeTT(board, depth, flag, bestScore, bestMove, ply);
+  return bestScore;
+}
+
+interface RootLine {
+  move: number;
+  score: number;
+  pv: number[];
+}
+
+// One full-depth pass over the root moves. Only lines that can still make
+// the top `multiPV` get an exact score; the rest just have to fail low.
+function searchRoot(board: SearchBoard, rootMoves: number[], depth: number, multiPV: number): RootLine[] | null {
+  const top: RootLine[] = [];
+
+  for (const move of rootMoves) {
+    const threshold = top.length >= multiPV ? top[multiPV - 1].score : -INFINITY;
+    board.makeMove(move);
+    let score: number;
+    if (threshold === -INFINITY) {
+      score = -negamax(board, depth - 1, -INFINITY, INFINITY, 1, true);
+    } else {
+      score = -negamax(board, depth - 1, -threshold - 1, -threshold, 1, true);
+      if (score > threshold && !stopped) {
+        score = -negamax(board, depth - 1, -INFINITY, -threshold, 1, true);
+      }
+    }
+    board.unmakeMove();
+    if (stopped) return null;
+
+    if (score > threshold) {
+      const pv = [move];
+      for (let j = 1; j < pvLength[1]; j++) pv.push(pvTable[MAX_PLY + j]);
+      top.push({ move, score, pv });
+      top.sort((a, b) => b.score - a.score);
+      if (top.length > multiPV) top.pop();
+    }
+  }
+
+  return top;
+}
+
+function toWhiteRelative(board: SearchBoard, score: number): { evaluation: number; mate: number | null } {
+  const sign = board.side === WHITE ? 1 : -1;
+  if (Math.abs(score) > MATE_BOUND) {
+    // Same encoding the Stockfish wrapper uses: ±(99999 - moves to mate)
+    const plies = MATE - Math.abs(score);
+    const moves = Math.ceil(plies / 2);
+    const mate = score > 0 ? moves : -moves;
+    const evaluation = score > 0 ? 99999 - moves : -99999 + moves;
+    return { evaluation: evaluation * sign, mate };
+  }
+  return { evaluation: score * sign, mate: null };
+}
+
+function buildResult(board: SearchBoard, fen: string, lines: RootLine[], depth: number, stopReason?: StopReason) {
+  const bestMoves = lines.map((line, i) => {
+    const pv = line.pv.map(moveToUci);
+    const pvSan = uciLineToSan(fen, pv);
+    return {
+      move: pv[0],
+      san: pvSan[0] ?? pv[0],
+      evaluation: toWhiteRelative(board, line.score).evaluation,
+      depth,
+      isPV: i === 0,
+      pv,
+      pvSan,
+    };
+  });
+  const best = lines.length > 0 ? toWhiteRelative(board, lines[0].score) : { evaluation: 0, mate: null };
 
   return {
     fen,
-    bestMoves: topMoves,
-    evaluation: topMoves.length > 0 ? topMoves[0].evaluation : 0,
+    bestMoves,
+    evaluation: best.evaluation,
     depth,
-    mate: null,
+    mate: best.mate,
+    stopReason,
   };
 }
 
+type SearchResult = ReturnType<typeof buildResult>;
+
+function evaluate(
+  fen: string,
+  limits: SearchLimits,
+  multiPV: number,
+  safetyMs?: number,
+  onDepth?: (partial: SearchResult) => void
+): SearchResult {
+  // Tablebase positions need no search
+  const exact = tablebaseEval(fen, multiPV);
+  if (exact) {
+    const result: SearchResult = { ...exact, stopReason: 'completed' };
+    onDepth?.(result);
+    return result;
+  }
+
+  const board = new SearchBoard(fen);
+  probeTables = countPieces(board) <= 4;
+  const buffer = new Int32Array(256);
+  const count = board.generateMoves(buffer);
+  let rootMoves: number[] = [];
+  for (let i = 0; i < count; i++) {
+    if (board.makeMove(buffer[i])) {
+      board.unmakeMove();
+      rootMoves.push(buffer[i]);
+    }
+  }
+
+  if (rootMoves.length === 0) {
+    // Checkmate or stalemate on the board
+    const mated = board.inCheck();
+    const evaluation = mated ? (board.side === WHITE ? -99999 : 99999) : 0;
+    return { fen, bestMoves: [], evaluation, depth: 0, mate: mated ? 0 : null, stopReason: 'completed' };
+  }
+
+  // Initial ordering: hash move, then captures by MVV-LVA
+  const scores = new Int32Array(rootMoves.length);
+  const ordered = Int32Array.from(rootMoves);
+  const idx = board.hashLo & TT_MASK;
+  scoreMoves(board, ordered, scores, ordered.length, 0, ttKey[idx] === board.hashHi ? ttMove[idx] : 0);
+  for (let i = 0; i < ordered.length; i++) pickMove(ordered, scores, i, ordered.length);
+  rootMoves = Array.from(ordered);
+
+  nodes = 0;
+  maxNodes = Infinity;
+  stopped = false;
+  deadline = Infinity;
+  killers.fill(0);
+
+  let result: SearchResult | null = null;
+  let stopReason: StopReason = 'completed';
+  const started = Date.now();
+  const lines = Math.min(multiPV, rootMoves.length);
+  const maxDepth = Math.min(limits.depth ?? MAX_PLY - 1, MAX_PLY - 1);
+
+  // The requested time limit and the caller's safety net share one deadline;
+  // whichever is earlier decides how a timed-out search is reported
+  const movetime = timeForMove(limits, board.side === WHITE);
+  const limitDeadline = movetime !== undefined ? started + movetime : Infinity;
+  const safetyDeadline = safetyMs !== undefined ? started + safetyMs : Infinity;
+  const timeReason: StopReason = limitDeadline <= safetyDeadline ? 'time' : 'timeout';
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    // Depth 1 always completes so there is something to return
+    if (depth === 2) {
+      deadline = Math.min(limitDeadline, safetyDeadline);
+      maxNodes = limits.nodes ?? Infinity;
+      if (nodes >= maxNodes) {
+        stopReason = 'nodes';
+        break;
+      }
+    }
+
+    const top = searchRoot(board, rootMoves, depth, lines);
+    if (!top) {
+      stopReason = nodes >= maxNodes ? 'nodes' : timeReason;
+      break;
+    }
+
+    result = buildResult(board, fen, top, depth);
+    storeTT(board, depth, TT_EXACT, top[0].score, top[0].move, 0);
+    onDepth?.(result);
+
+    // Next iteration starts with this iteration's best lines
+    const best = top.map(line => line.move);
+    rootMoves = [...best, ...rootMoves.filter(m => !best.includes(m))];
+
+    // A forced mate found at full width won't get any shorter by going deeper
+    if (Math.abs(top[0].score) > MATE_BOUND && depth >= MATE - Math.abs(top[0].score)) break;
+    if (depth > 1 && Date.now() > deadline) {
+      if (depth < maxDepth) stopReason = timeReason;
+      break;
+    }
+  }
+
+  return { ...result!, stopReason };
+}
+
 // Worker message handler
 self.onmessage = (e: MessageEvent) => {
-  const { id, type, fen, depth, multiPV } = e.data;
+  const { id, type, fen, limits, multiPV, stream, safetyMs } = e.data;
+
+  if (type === 'newgame') {
+    clearSearchState();
+    return;
+  }
 
   if (type === 'evaluate') {
     try {
-      const result = evaluate(fen, depth || 4, multiPV || 5);
+      const result = evaluate(
+        fen,
+        limits,
+        multiPV || 5,
+        safetyMs,
+        stream ? partial => self.postMessage({ id, partial }) : undefined
+      );
       self.postMessage({ id, result });
     } catch (err) {
       self.postMessage({ id, error: String(err) });
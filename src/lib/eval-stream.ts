@@ -0,0 +1,64 @@
+// ============================================================
+// RazorChess — Evaluation Stream Helpers
+// Bridges engine progress callbacks to async iteration
+// ============================================================
+
+// Async iterable that only keeps the newest pushed value. A slow consumer
+// skips stale depths instead of falling behind; the final value is never lost.
+export class LatestValueStream<T> implements AsyncIterable<T> {
+  private latest: { value: T } | null = null;
+  private done = false;
+  private error: Error | null = null;
+  private wake: (() => void) | null = null;
+
+  push(value: T): void {
+    if (this.done) return;
+    this.latest = { value };
+    this.notify();
+  }
+
+  end(final?: T): void {
+    if (this.done) return;
+    if (final !== undefined) this.latest = { value: final };
+    this.done = true;
+    this.notify();
+  }
+
+  fail(err: Error): void {
+    if (this.done) return;
+    this.error = err;
+    this.done = true;
+    this.notify();
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    while (true) {
+      if (this.latest) {
+        const { value } = this.latest;
+        this.latest = null;
+        yield value;
+        continue;
+      }
+      if (this.error) throw this.error;
+      if (this.done) return;
+      await new Promise<void>(resolve => { this.wake = resolve; });
+    }
+  }
+}
+
+// AbortController that also fires when the caller's signal does. Aborting
+// it unhooks it from the parent, so abort it once it's done with.
+export function linkedAbortController(parent?: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (parent) {
+    if (parent.aborted) controller.abort();
+    else parent.addEventListener('abort', () => controller.abort(), { once: true, signal: controller.signal });
+  }
+  return controller;
+}
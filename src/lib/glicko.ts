@@ -0,0 +1,95 @@
+// ============================================================
+// RazorChess — Glicko-2 Ratings
+// Rating, deviation and volatility, updated one game at a time
+// (Glickman, "Example of the Glicko-2 system", 2013)
+// ============================================================
+
+import { GlickoRating } from './types';
+
+export const DEFAULT_RATING: GlickoRating = { rating: 1200, deviation: 350, volatility: 0.06 };
+
+// Ratings with a deviation above this are shown as provisional
+export const PROVISIONAL_DEVIATION = 110;
+
+const MIN_DEVIATION = 45;
+const MAX_DEVIATION = 350;
+const SCALE = 173.7178;       // Glicko-2 internal units per rating point
+const TAU = 0.5;              // constrains volatility change
+const EPSILON = 0.000001;
+
+export function isProvisional(rating: Pick<GlickoRating, 'deviation'>): boolean {
+  return rating.deviation > PROVISIONAL_DEVIATION;
+}
+
+// 95% confidence interval for the true rating
+export function confidenceInterval(rating: Pick<GlickoRating, 'rating' | 'deviation'>): [number, number] {
+  return [rating.rating - 2 * rating.deviation, rating.rating + 2 * rating.deviation];
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI));
+}
+
+// New volatility by the Illinois algorithm (step 5 of the paper)
+function updateVolatility(phi: number, sigma: number, delta: number, v: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + v + ex;
+    return ex * (delta * delta - d) / (2 * d * d) - (x - a) / (TAU * TAU);
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta * delta > phi * phi + v) {
+    upper = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    upper = a - k * TAU;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > EPSILON) {
+    const c = lower + (lower - upper) * fLower / (fUpper - fLower);
+    const fc = f(c);
+    if (fc * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower /= 2;
+    }
+    upper = c;
+    fUpper = fc;
+  }
+  return Math.exp(lower / 2);
+}
+
+// Rate one game as its own rating period. `score` is 1 for a win, 0.5 for
+// a draw and 0 for a loss; `opponent` needs only a rating and deviation.
+export function rateGame(
+  player: GlickoRating,
+  opponent: Pick<GlickoRating, 'rating' | 'deviation'>,
+  score: number
+): GlickoRating {
+  const mu = (player.rating - 1500) / SCALE;
+  const phi = player.deviation / SCALE;
+  const muOpp = (opponent.rating - 1500) / SCALE;
+  const gOpp = g(opponent.deviation / SCALE);
+
+  const expected = 1 / (1 + Math.exp(-gOpp * (mu - muOpp)));
+  const v = 1 / (gOpp * gOpp * expected * (1 - expected));
+  const delta = v * gOpp * (score - expected);
+
+  const volatility = updateVolatility(phi, player.volatility, delta, v);
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * gOpp * (score - expected);
+
+  return {
+    rating: newMu * SCALE + 1500,
+    deviation: Math.max(MIN_DEVIATION, Math.min(MAX_DEVIATION, newPhi * SCALE)),
+    volatility,
+  };
+}
@@ -0,0 +1,229 @@
+// ============================================================
+// RazorChess — Tactical Motifs
+// Names the tactic behind a blunder or a missed chance by
+// replaying the engine's line: forks, pins, skewers and more
+// ============================================================
+
+import { Chess, Color, Move, PieceSymbol, Square } from 'chess.js';
+import { GameMove, MissedTactic, PieceKind, TacticalMotif, TacticalTag } from './types';
+import { PIECE_VALUES, staticExchange } from './sacrifice';
+import { moveClass } from './accuracy';
+
+const PIECE_KINDS: Record<PieceSymbol, PieceKind> = {
+  p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king',
+};
+
+export const MOTIF_LABELS: Record<TacticalMotif, string> = {
+  'fork': 'fork',
+  'pin': 'pin',
+  'skewer': 'skewer',
+  'discovered-attack': 'discovered attack',
+  'back-rank-mate': 'back-rank mate',
+  'hanging-piece': 'hanging piece',
+  'overloaded-defender': 'overloaded defender',
+  'deflection': 'deflection',
+};
+
+// Motifs named after the piece that carries them out ("knight fork")
+const PIECE_MOTIFS: TacticalMotif[] = ['fork', 'pin', 'skewer', 'discovered-attack'];
+
+const FILES = 'abcdefgh';
+const RAYS: Record<'b' | 'r' | 'q', [number, number][]> = {
+  b: [[1, 1], [1, -1], [-1, 1], [-1, -1]],
+  r: [[1, 0], [-1, 0], [0, 1], [0, -1]],
+  q: [[1, 1], [1, -1], [-1, 1], [-1, -1], [1, 0], [-1, 0], [0, 1], [0, -1]],
+};
+
+// "knight fork", "hanging rook", "back-rank mates"
+export function motifName(tag: TacticalTag, count: number = 1): string {
+  let name = MOTIF_LABELS[tag.motif];
+  if (tag.piece && tag.motif === 'hanging-piece') name = `hanging ${tag.piece}`;
+  else if (tag.piece && PIECE_MOTIFS.includes(tag.motif)) name = `${tag.piece} ${name}`;
+  return count === 1 ? name : `${name}s`;
+}
+
+// Identical tags counted together, most frequent first
+export function countMotifs(tags: TacticalTag[]): { tag: TacticalTag; count: number }[] {
+  const counts = new Map<string, { tag: TacticalTag; count: number }>();
+  for (const tag of tags) {
+    const key = `${tag.motif}:${tag.piece ?? ''}`;
+    const entry = counts.get(key) ?? { tag: { motif: tag.motif, piece: tag.piece }, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+}
+
+// Moves of a SAN line from `fen`, up to the first one that doesn't fit
+function replayLine(fen: string, line: string[]): Move[] {
+  const chess = new Chess(fen);
+  const moves: Move[] = [];
+  for (const san of line) {
+    try {
+      moves.push(chess.move(san));
+    } catch {
+      break;
+    }
+  }
+  return moves;
+}
+
+function enemyPieces(chess: Chess, color: Color): { square: Square; type: PieceSymbol }[] {
+  return chess.board().flat().filter(p => p !== null && p.color !== color) as { square: Square; type: PieceSymbol }[];
+}
+
+// Attacking a piece is a threat if it's the king, is worth more than the
+// attacker, or has no defender
+function isThreat(chess: Chess, target: { square: Square; type: PieceSymbol }, attacker: PieceSymbol, by: Color): boolean {
+  if (target.type === 'k') return true;
+  if (target.type === 'p') return false;
+  const defender: Color = by === 'w' ? 'b' : 'w';
+  return PIECE_VALUES[target.type] > PIECE_VALUES[attacker] || chess.attackers(target.square, defender).length === 0;
+}
+
+// The moved piece threatens two or more pieces at once
+function findFork(move: Move): TacticalTag | null {
+  const after = new Chess(move.after);
+  const threats = enemyPieces(after, move.color).filter(target =>
+    after.attackers(target.square, move.color).includes(move.to) && isThreat(after, target, move.piece, move.color)
+  );
+  return threats.length >= 2 ? { motif: 'fork', piece: PIECE_KINDS[move.piece] } : null;
+}
+
+// The moved slider lines up two enemy pieces: the nearer one pinned to a
+// more valuable one behind it, or a more valuable one skewered in front
+function findPinOrSkewer(move: Move): TacticalTag | null {
+  if (move.piece !== 'b' && move.piece !== 'r' && move.piece !== 'q') return null;
+  const after = new Chess(move.after);
+  const file = FILES.indexOf(move.to[0]);
+  const rank = Number(move.to[1]);
+
+  for (const [df, dr] of RAYS[move.piece]) {
+    const found: { type: PieceSymbol; color: Color }[] = [];
+    for (let f = file + df, r = rank + dr; f >= 0 && f < 8 && r >= 1 && r <= 8 && found.length < 2; f += df, r += dr) {
+      const piece = after.get(`${FILES[f]}${r}` as Square);
+      if (piece) found.push(piece);
+    }
+    if (found.length < 2 || found.some(p => p.color === move.color)) continue;
+
+    const [front, back] = found;
+    const piece = PIECE_KINDS[move.piece];
+    if (front.type !== 'p' && PIECE_VALUES[back.type] > PIECE_VALUES[front.type]) return { motif: 'pin', piece };
+    if (back.type !== 'p' && PIECE_VALUES[front.type] > PIECE_VALUES[back.type]) return { motif: 'skewer', piece };
+  }
+  return null;
+}
+
+// Moving a piece out of the way lets a slider behind it threaten something.
+// Castling moves the rook itself, so what it attacks isn't discovered.
+function findDiscoveredAttack(move: Move): TacticalTag | null {
+  if (move.flags.includes('k') || move.flags.includes('q')) return null;
+  const before = new Chess(move.before);
+  const after = new Chess(move.after);
+  for (const target of enemyPieces(after, move.color)) {
+    const revealed = after.attackers(target.square, move.color).filter(sq =>
+      sq !== move.to && !before.attackers(target.square, move.color).includes(sq)
+    );
+    for (const square of revealed) {
+      const slider = after.get(square)!.type;
+      if (isThreat(after, target, slider, move.color)) return { motif: 'discovered-attack', piece: PIECE_KINDS[slider] };
+    }
+  }
+  return null;
+}
+
+// The line ends in mate by a rook or queen along the king's back rank
+function findBackRankMate(moves: Move[]): TacticalTag | null {
+  const last = moves[moves.length - 1];
+  if (!last || last.color !== moves[0].color || (last.piece !== 'r' && last.piece !== 'q')) return null;
+  const final = new Chess(last.after);
+  if (!final.isCheckmate()) return null;
+
+  const backRank = last.color === 'w' ? '8' : '1';
+  const king = final.board().flat().find(p => p?.type === 'k' && p.color !== last.color);
+  if (!king || king.square[1] !== backRank || last.to[1] !== backRank) return null;
+  return { motif: 'back-rank-mate', piece: PIECE_KINDS[last.piece] };
+}
+
+// The line opens by taking a piece that can't be won back
+function findHangingPiece(move: Move): TacticalTag | null {
+  if (!move.captured || move.captured === 'p') return null;
+  const before = new Chess(move.before);
+  if (staticExchange(before, move.to) < PIECE_VALUES[move.captured]) return null;
+  return { motif: 'hanging-piece', piece: PIECE_KINDS[move.captured] };
+}
+
+// A defender is drawn to the square the line opens on, and the third move
+// wins what it had been guarding. Overloaded if it had to recapture there,
+// deflected if it was lured away by a piece offered to it.
+function findDefenderTactic(moves: Move[]): TacticalTag | null {
+  if (moves.length < 3) return null;
+  const [lure, pull, strike] = moves;
+  if (pull.to !== lure.to || strike.to === lure.to) return null;
+  const final = new Chess(strike.after);
+  if (!strike.captured && !final.isCheckmate()) return null;
+
+  const beforePull = new Chess(pull.before);
+  if (!beforePull.attackers(strike.to, pull.color).includes(pull.from)) return null;
+  return {
+    motif: lure.captured ? 'overloaded-defender' : 'deflection',
+    piece: PIECE_KINDS[pull.piece],
+  };
+}
+
+// Tactics in an engine line from `fen`, where the side to move is the one
+// with the tactic. Only the opening move is checked for fork, pin, skewer,
+// discovered attack and hanging piece; the line as a whole for the rest.
+export function detectMotifs(fen: string, line: string[]): TacticalTag[] {
+  const moves = replayLine(fen, line);
+  if (moves.length === 0) return [];
+
+  const [first] = moves;
+  const found = [
+    findBackRankMate(moves),
+    findDefenderTactic(moves),
+    findFork(first),
+    findPinOrSkewer(first),
+    findDiscoveredAttack(first),
+    findHangingPiece(first),
+  ];
+  return found.filter((tag): tag is TacticalTag => tag !== null);
+}
+
+// Tag each classified blunder with the tactic it allowed (in the reply the
+// engine found) and each miss with the tactic it passed up
+export function tagMotifs(moves: GameMove[], startFen: string): GameMove[] {
+  return moves.map((move, i) => {
+    if (!move.isPlayerMove) return move;
+    const cls = moveClass(move);
+    let motifs: TacticalTag[] = [];
+    if (cls === 'blunder' && move.refutation) {
+      motifs = detectMotifs(move.fen, move.refutation);
+    } else if (cls === 'miss') {
+      motifs = detectMotifs(i > 0 ? moves[i - 1].fen : startFen, move.bestLine);
+    }
+    return motifs.length > 0 ? { ...move, motifs } : move;
+  });
+}
+
+// How far back the profile remembers missed tactics
+export const MOTIF_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// The game's tagged player moves as entries for the profile
+function gameMissedTactics(moves: GameMove[], gameId: string, date: number): MissedTactic[] {
+  return moves.flatMap(m => m.isPlayerMove ? (m.motifs ?? []).map(tag => ({ ...tag, gameId, date })) : []);
+}
+
+// The past week's missed tactics with this game's added. The game may
+// already be in `history` (once recorded), so its old entries are replaced.
+export function recentMissedTactics(
+  history: MissedTactic[],
+  moves: GameMove[],
+  gameId: string,
+  now: number = Date.now()
+): MissedTactic[] {
+  return [
+    ...history.filter(t => t.gameId !== gameId && now - t.date < MOTIF_WINDOW_MS),
+    ...gameMissedTactics(moves, gameId, now),
+  ];
+}
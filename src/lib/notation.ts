@@ -0,0 +1,58 @@
+// ============================================================
+// RazorChess — Move Notation Helpers
+// UCI <-> SAN conversion for single moves and whole lines
+// ============================================================
+
+import { Chess, Square } from 'chess.js';
+
+function playUci(chess: Chess, uci: string) {
+  const from = uci.slice(0, 2) as Square;
+  const to = uci.slice(2, 4) as Square;
+  const promotion = uci.length > 4 ? uci[4] : undefined;
+  return chess.move({ from, to, promotion });
+}
+
+export function uciToSan(fen: string, uci: string): string {
+  try {
+    const result = playUci(new Chess(fen), uci);
+    return result ? result.san : uci;
+  } catch {
+    return uci;
+  }
+}
+
+// Converts a PV from the given position. Stops at the first move that
+// isn't legal so a truncated or corrupted engine line never throws.
+export function uciLineToSan(fen: string, uciMoves: string[]): string[] {
+  const san: string[] = [];
+  try {
+    const chess = new Chess(fen);
+    for (const uci of uciMoves) {
+      const result = playUci(chess, uci);
+      if (!result) break;
+      san.push(result.san);
+    }
+  } catch {
+    // Illegal move or bad FEN: keep what converted cleanly
+  }
+  return san;
+}
+
+// "Nxe5 Qxe5 Bf4…" with move numbers, e.g. "12. Nxe5 Qxe5 13. Bf4"
+export function formatLine(fen: string, sanMoves: string[], maxMoves: number = 6): string {
+  if (sanMoves.length === 0) return '';
+  const parts = fen.split(' ');
+  let whiteToMove = parts[1] !== 'b';
+  let moveNumber = parseInt(parts[5] || '1');
+  const shown = sanMoves.slice(0, maxMoves);
+  const out: string[] = [];
+
+  shown.forEach((san, i) => {
+    if (whiteToMove) out.push(`${moveNumber}. ${san}`);
+    else out.push(i === 0 ? `${moveNumber}... ${san}` : san);
+    if (!whiteToMove) moveNumber++;
+    whiteToMove = !whiteToMove;
+  });
+
+  return out.join(' ') + (sanMoves.length > maxMoves ? '…' : '');
+}
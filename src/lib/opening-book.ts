@@ -0,0 +1,221 @@
+// ============================================================
+// RazorChess — Opening Book
+// Per-personality repertoires from a bundled JSON tree, plus
+// any Polyglot .bin book the app serves
+// ============================================================
+
+import { Chess, Square } from 'chess.js';
+import { Personality } from './types';
+import { POLYGLOT_RANDOM } from './polyglot-keys';
+import repertoires from './repertoires.json';
+
+export interface BookMove {
+  uci: string;
+  san: string;
+  weight: number;
+}
+
+export interface OpeningBook {
+  // Book moves for the side to move in `fen`, empty when out of book
+  probe(fen: string): BookMove[];
+}
+
+// SAN → replies, from the initial position; an empty object ends a line
+type RepertoireTree = { [san: string]: RepertoireTree };
+
+// Where to put a Polyglot book to extend the bundled repertoires
+export const DEFAULT_POLYGLOT_PATH = '/books/book.bin';
+
+const POLYGLOT_ENTRY_BYTES = 16;
+const CASTLE_OFFSET = 768;
+const EN_PASSANT_OFFSET = 772;
+const TURN_OFFSET = 780;
+const PROMOTIONS = ['', 'n', 'b', 'r', 'q', '', '', ''];
+
+// Polyglot writes castling as the king taking its own rook
+const CASTLING_AS_ROOK_CAPTURE: Record<string, string> = {
+  e1g1: 'e1h1', e1c1: 'e1a1', e8g8: 'e8h8', e8c8: 'e8a8',
+};
+
+function positionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+// How many plies into the game the book is used: four moves at 800,
+// eight at 1200, the whole repertoire from about 2400
+export function bookDepthForElo(elo: number): number {
+  return Math.max(4, Math.min(40, Math.round((elo - 400) / 50)));
+}
+
+// Weighted random choice, so books with weights keep their preferences
+export function pickBookMove(moves: BookMove[]): BookMove {
+  const total = moves.reduce((sum, m) => sum + m.weight, 0);
+  let random = Math.random() * total;
+  for (const move of moves) {
+    random -= move.weight;
+    if (random <= 0) return move;
+  }
+  return moves[0];
+}
+
+// ---- Bundled repertoires ----
+
+// Only the repertoire side's moves are book moves; the other side's
+// branches are the replies the repertoire is prepared for
+export class RepertoireBook implements OpeningBook {
+  private positions = new Map<string, BookMove[]>();
+
+  constructor(tree: RepertoireTree, color: 'white' | 'black') {
+    this.walk(tree, new Chess(), color === 'white' ? 'w' : 'b');
+  }
+
+  private walk(tree: RepertoireTree, chess: Chess, side: 'w' | 'b'): void {
+    for (const [san, replies] of Object.entries(tree)) {
+      const key = positionKey(chess.fen());
+      const move = chess.move(san);
+      if (chess.turn() !== side) {
+        const moves = this.positions.get(key) ?? [];
+        // Lines that transpose into each other list a move once
+        if (!moves.some(m => m.san === move.san)) {
+          moves.push({ uci: move.from + move.to + (move.promotion ?? ''), san: move.san, weight: 1 });
+        }
+        this.positions.set(key, moves);
+      }
+      this.walk(replies, chess, side);
+      chess.undo();
+    }
+  }
+
+  probe(fen: string): BookMove[] {
+    return this.positions.get(positionKey(fen)) ?? [];
+  }
+}
+
+const repertoireCache = new Map<string, RepertoireBook>();
+
+export function repertoireBook(personality: Personality, color: 'white' | 'black'): RepertoireBook {
+  const cacheKey = `${personality}:${color}`;
+  let book = repertoireCache.get(cacheKey);
+  if (!book) {
+    const trees = repertoires as Record<Personality, Record<'white' | 'black', RepertoireTree>>;
+    book = new RepertoireBook(trees[personality][color], color);
+    repertoireCache.set(cacheKey, book);
+  }
+  return book;
+}
+
+// ---- Polyglot ----
+
+// The Polyglot Zobrist key of a position as [high, low] 32-bit halves
+export function polyglotKey(fen: string): [number, number] {
+  const chess = new Chess(fen);
+  const [, side, castling, enPassant] = fen.split(' ');
+  let hi = 0;
+  let lo = 0;
+  const xor = (index: number) => {
+    hi ^= POLYGLOT_RANDOM[index * 2];
+    lo ^= POLYGLOT_RANDOM[index * 2 + 1];
+  };
+
+  chess.board().forEach((row, r) => {
+    row.forEach((piece, file) => {
+      if (!piece) return;
+      // Kinds alternate black/white: bp wp bn wn bb wb br wr bq wq bk wk
+      const kind = 'pnbrqk'.indexOf(piece.type) * 2 + (piece.color === 'w' ? 1 : 0);
+      xor(64 * kind + 8 * (7 - r) + file);
+    });
+  });
+
+  ['K', 'Q', 'k', 'q'].forEach((right, i) => {
+    if (castling.includes(right)) xor(CASTLE_OFFSET + i);
+  });
+
+  // En passant only counts when a pawn of the side to move can take
+  if (enPassant !== '-') {
+    const file = enPassant.charCodeAt(0) - 97;
+    const pawnRank = side === 'w' ? '5' : '4';
+    const capturer = [file - 1, file + 1]
+      .filter(f => f >= 0 && f < 8)
+      .some(f => {
+        const piece = chess.get(`${String.fromCharCode(97 + f)}${pawnRank}` as Square);
+        return piece?.type === 'p' && piece.color === side;
+      });
+    if (capturer) xor(EN_PASSANT_OFFSET + file);
+  }
+
+  if (side === 'w') xor(TURN_OFFSET);
+  return [hi >>> 0, lo >>> 0];
+}
+
+// 16-byte big-endian entries sorted by key: key u64, move u16, weight u16, learn u32
+export class PolyglotBook implements OpeningBook {
+  private view: DataView;
+  private count: number;
+
+  constructor(data: ArrayBuffer) {
+    if (data.byteLength % POLYGLOT_ENTRY_BYTES !== 0) {
+      throw new Error('Not a Polyglot book: size is not a multiple of 16 bytes');
+    }
+    this.view = new DataView(data);
+    this.count = data.byteLength / POLYGLOT_ENTRY_BYTES;
+  }
+
+  private compareKey(index: number, hi: number, lo: number): number {
+    const offset = index * POLYGLOT_ENTRY_BYTES;
+    const entryHi = this.view.getUint32(offset);
+    if (entryHi !== hi) return entryHi < hi ? -1 : 1;
+    const entryLo = this.view.getUint32(offset + 4);
+    return entryLo === lo ? 0 : entryLo < lo ? -1 : 1;
+  }
+
+  probe(fen: string): BookMove[] {
+    const [hi, lo] = polyglotKey(fen);
+
+    // First entry with this key
+    let low = 0;
+    let high = this.count;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.compareKey(mid, hi, lo) < 0) low = mid + 1;
+      else high = mid;
+    }
+
+    const legal = new Chess(fen).moves({ verbose: true });
+    const moves: BookMove[] = [];
+    for (let i = low; i < this.count && this.compareKey(i, hi, lo) === 0; i++) {
+      const offset = i * POLYGLOT_ENTRY_BYTES;
+      const encoded = this.view.getUint16(offset + 8);
+      const weight = this.view.getUint16(offset + 10);
+      const uci = decodePolyglotMove(encoded);
+      // Key collisions and corrupt entries fail the legality check
+      const move = legal.find(m => m.from + m.to + (m.promotion ?? '') === uci)
+        ?? legal.find(m => m.piece === 'k' && CASTLING_AS_ROOK_CAPTURE[m.from + m.to] === uci);
+      if (move && weight > 0) {
+        moves.push({ uci: move.from + move.to + (move.promotion ?? ''), san: move.san, weight });
+      }
+    }
+    return moves;
+  }
+}
+
+function decodePolyglotMove(encoded: number): string {
+  const square = (file: number, row: number) => `${String.fromCharCode(97 + file)}${row + 1}`;
+  const from = square((encoded >> 6) & 7, (encoded >> 9) & 7);
+  const to = square(encoded & 7, (encoded >> 3) & 7);
+  return from + to + PROMOTIONS[(encoded >> 12) & 7];
+}
+
+// The Polyglot book served at `path`, or null when there isn't one
+export async function loadPolyglotBook(path: string = DEFAULT_POLYGLOT_PATH): Promise<PolyglotBook | null> {
+  if (typeof window === 'undefined') return null;
+  try {
+    const res = await fetch(path);
+    // Dev servers answer unknown paths with an HTML 404 page
+    const type = res.headers.get('content-type') || '';
+    if (!res.ok || type.includes('text/html')) return null;
+    return new PolyglotBook(await res.arrayBuffer());
+  } catch (err) {
+    console.warn('[OpeningBook] Could not load Polyglot book:', err);
+    return null;
+  }
+}
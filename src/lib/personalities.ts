@@ -17,6 +17,11 @@ const personalities: Record<Personality, PersonalityConfig> = {
       complexityBias: 0.2,    // prefers simple, clear positions
       mistakeRate: 0.03,      // rarely makes mistakes
     },
+    takebackLimit: 2,
+    drawReplies: {
+      accept: "Fine. You've held the wall. A draw it is.",
+      decline: "A draw? I'm just getting comfortable.",
+    },
     commentary: [
       "Solid move. Let's see if you can break through.",
       "I'm not going anywhere. Take your time.",
@@ -42,6 +47,11 @@ const personalities: Record<Personality, PersonalityConfig> = {
       complexityBias: 0.8,    // loves complex positions
       mistakeRate: 0.08,      // sometimes overextends
     },
+    takebackLimit: 1,
+    drawReplies: {
+      accept: "Ugh, fine. I'll find blood next game.",
+      decline: "A draw?! Never. Fight me!",
+    },
     commentary: [
       "SACRIFICE! Who needs pawns anyway?",
       "Your king looks lonely over there...",
@@ -67,6 +77,11 @@ const personalities: Record<Personality, PersonalityConfig> = {
       complexityBias: 0.7,
       mistakeRate: 0.06,
     },
+    takebackLimit: 1,
+    drawReplies: {
+      accept: "Agreed... you'll never know what I had planned.",
+      decline: "Draw? Oh, I don't think so. I've got something in mind.",
+    },
     commentary: [
       "Hmm, this looks like a free pawn... or does it?",
       "Oh no, I blundered! ...or did I?",
@@ -92,6 +107,11 @@ const personalities: Record<Personality, PersonalityConfig> = {
       complexityBias: 0.5,
       mistakeRate: 0.04,
     },
+    takebackLimit: null,    // a teacher lets you try again
+    drawReplies: {
+      accept: "A fair result. Well played!",
+      decline: "Let's play on — there's still something to learn here.",
+    },
     commentary: [
       "Good move! You're controlling the center well.",
       "Careful — my bishop is looking at your kingside.",
@@ -115,6 +135,13 @@ export function getAllPersonalities(): PersonalityConfig[] {
   return Object.values(personalities);
 }
 
+// Takebacks the player gets in a game: none when rated, otherwise the
+// persona's limit (Infinity for unlimited)
+export function takebackAllowance(personality: Personality, rated: boolean): number {
+  if (rated) return 0;
+  return personalities[personality].takebackLimit ?? Infinity;
+}
+
 export function getRandomCommentary(personality: Personality): string {
   const config = personalities[personality];
   return config.commentary[Math.floor(Math.random() * config.commentary.length)];
@@ -0,0 +1,331 @@
+// ============================================================
+// RazorChess — PGN / FEN Import
+// Parses PGN with variations, comments and NAGs into checked
+// move trees, and turns an imported mainline into GameMoves
+// ============================================================
+
+import { Chess, validateFen } from 'chess.js';
+import { GameMove, GameResult } from './types';
+
+const START_FEN = new Chess().fen();
+
+export interface PgnNode {
+  san: string;
+  uci: string;
+  fen: string;                // position after the move
+  nags: number[];
+  comment: string;            // text with [%...] commands stripped
+  evaluation?: number;        // from [%eval], white-relative centipawns
+  clockMs?: number;           // from [%clk]
+  variations: PgnNode[][];    // alternatives to this move, each from the position before it
+}
+
+export interface PgnGame {
+  tags: Record<string, string>;
+  startFen: string;
+  moves: PgnNode[];           // mainline
+  result: string;             // 1-0, 0-1, 1/2-1/2 or *
+}
+
+type Token =
+  | { type: 'tag'; name: string; value: string }
+  | { type: 'move'; san: string }
+  | { type: 'nag'; nag: number }
+  | { type: 'comment'; text: string }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'result'; result: string };
+
+// Traditional suffix annotations and the NAGs they stand for
+const SUFFIX_NAGS: Record<string, number> = {
+  '!': 1, '?': 2, '!!': 3, '??': 4, '!?': 5, '?!': 6,
+};
+
+const RESULTS = new Set(['1-0', '0-1', '1/2-1/2', '*']);
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  // Lines starting with % are escaped out entirely
+  const source = text.replace(/^%.*$/gm, '');
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '[') {
+      const match = /^\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]/.exec(source.slice(i));
+      if (!match) throw new Error(`Malformed tag near "${source.slice(i, i + 30)}"`);
+      tokens.push({ type: 'tag', name: match[1], value: match[2].replace(/\\(.)/g, '$1') });
+      i += match[0].length;
+    } else if (ch === '{') {
+      const end = source.indexOf('}', i);
+      if (end < 0) throw new Error('Unterminated comment');
+      tokens.push({ type: 'comment', text: source.slice(i + 1, end) });
+      i = end + 1;
+    } else if (ch === ';') {
+      const end = source.indexOf('\n', i);
+      const stop = end < 0 ? source.length : end;
+      tokens.push({ type: 'comment', text: source.slice(i + 1, stop) });
+      i = stop;
+    } else if (ch === '(') {
+      tokens.push({ type: 'open' });
+      i++;
+    } else if (ch === ')') {
+      tokens.push({ type: 'close' });
+      i++;
+    } else if (ch === '$') {
+      const match = /^\$(\d+)/.exec(source.slice(i));
+      if (!match) throw new Error(`Malformed NAG near "${source.slice(i, i + 10)}"`);
+      tokens.push({ type: 'nag', nag: parseInt(match[1]) });
+      i += match[0].length;
+    } else {
+      const match = /^[^\s{}();[\]$]+/.exec(source.slice(i));
+      if (!match) throw new Error(`Unexpected "${ch}" in PGN`);
+      i += match[0].length;
+      pushSymbol(tokens, match[0]);
+    }
+  }
+  return tokens;
+}
+
+// A bare symbol: result, move number, SAN, or SAN with ! / ? suffixes
+function pushSymbol(tokens: Token[], symbol: string): void {
+  if (RESULTS.has(symbol)) {
+    tokens.push({ type: 'result', result: symbol });
+    return;
+  }
+  // "12." / "12..." possibly glued to the move: "12.e4"
+  const numbered = /^\d+\.+(.*)$/.exec(symbol);
+  if (numbered) {
+    if (numbered[1]) pushSymbol(tokens, numbered[1]);
+    return;
+  }
+  if (/^\d+$/.test(symbol)) return;
+  // Castling written with zeros
+  if (/^0-0(-0)?[+#]?$/.test(symbol)) {
+    pushSymbol(tokens, symbol.replace(/0/g, 'O'));
+    return;
+  }
+  if (SUFFIX_NAGS[symbol]) {
+    tokens.push({ type: 'nag', nag: SUFFIX_NAGS[symbol] });
+    return;
+  }
+  const suffix = /^(.*?)([!?]{1,2})$/.exec(symbol);
+  if (suffix && suffix[1] && SUFFIX_NAGS[suffix[2]]) {
+    tokens.push({ type: 'move', san: suffix[1] });
+    tokens.push({ type: 'nag', nag: SUFFIX_NAGS[suffix[2]] });
+    return;
+  }
+  tokens.push({ type: 'move', san: symbol });
+}
+
+// [%eval 0.35] / [%eval #-3] → the ±(99999 - n) mate encoding used everywhere else
+function parseEvalCommand(value: string): number | undefined {
+  const mate = /^#(-?)(\d+)$/.exec(value);
+  if (mate) {
+    const moves = parseInt(mate[2]);
+    return mate[1] ? -99999 + moves : 99999 - moves;
+  }
+  const pawns = parseFloat(value);
+  return Number.isFinite(pawns) ? Math.round(pawns * 100) : undefined;
+}
+
+// [%clk 0:04:58] or [%clk 0:00:08.3]
+function parseClockCommand(value: string): number | undefined {
+  const match = /^(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/.exec(value);
+  if (!match) return undefined;
+  return Math.round((parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseFloat(match[3])) * 1000);
+}
+
+function applyComment(node: PgnNode, raw: string): void {
+  const text = raw.replace(/\[%(\w+)\s+([^\]]*)\]/g, (_, command: string, value: string) => {
+    if (command === 'eval') node.evaluation = parseEvalCommand(value.trim().split(/[\s,]/)[0]) ?? node.evaluation;
+    if (command === 'clk') node.clockMs = parseClockCommand(value.trim()) ?? node.clockMs;
+    return '';
+  }).replace(/\s+/g, ' ').trim();
+  if (text) node.comment = node.comment ? `${node.comment} ${text}` : text;
+}
+
+interface Cursor {
+  tokens: Token[];
+  index: number;
+}
+
+// Parse one line of play from `startFen` until a ')' or the end of the game.
+// Every move is checked with chess.js as it is read.
+function parseLine(cursor: Cursor, startFen: string, depth: number): PgnNode[] {
+  const line: PgnNode[] = [];
+  const chess = new Chess(startFen);
+  let fenBeforeLast = startFen;
+  let leadingComment = '';
+
+  while (cursor.index < cursor.tokens.length) {
+    const token = cursor.tokens[cursor.index];
+    const last = line[line.length - 1];
+
+    if (token.type === 'close') {
+      if (depth === 0) throw new Error('Unbalanced ")" in PGN');
+      return line;
+    }
+    if (token.type === 'result' || token.type === 'tag') {
+      if (depth > 0) throw new Error('Variation not closed before the end of the game');
+      return line;
+    }
+    cursor.index++;
+
+    switch (token.type) {
+      case 'move': {
+        const fenBefore = chess.fen();
+        let move;
+        try {
+          move = chess.move(token.san);
+        } catch {
+          const moveNumber = fenBefore.split(' ')[5];
+          throw new Error(`Illegal move "${token.san}" at move ${moveNumber}`);
+        }
+        const node: PgnNode = {
+          san: move.san,
+          uci: move.from + move.to + (move.promotion ?? ''),
+          fen: chess.fen(),
+          nags: [],
+          comment: '',
+          variations: [],
+        };
+        if (leadingComment) {
+          applyComment(node, leadingComment);
+          leadingComment = '';
+        }
+        line.push(node);
+        fenBeforeLast = fenBefore;
+        break;
+      }
+      case 'nag':
+        last?.nags.push(token.nag);
+        break;
+      case 'comment':
+        if (last) applyComment(last, token.text);
+        else leadingComment += ` ${token.text}`;
+        break;
+      case 'open': {
+        if (!last) throw new Error('Variation before any move');
+        last.variations.push(parseLine(cursor, fenBeforeLast, depth + 1));
+        cursor.index++; // the matching ')'
+        break;
+      }
+    }
+  }
+
+  if (depth > 0) throw new Error('Variation not closed before the end of the PGN');
+  return line;
+}
+
+// Parse every game in a PGN file or paste
+export function parsePgn(text: string): PgnGame[] {
+  const cursor: Cursor = { tokens: tokenize(text), index: 0 };
+  const games: PgnGame[] = [];
+
+  while (cursor.index < cursor.tokens.length) {
+    const tags: Record<string, string> = {};
+    while (cursor.index < cursor.tokens.length) {
+      const token = cursor.tokens[cursor.index];
+      if (token.type !== 'tag') break;
+      tags[token.name] = token.value;
+      cursor.index++;
+    }
+
+    const startFen = tags.FEN ?? START_FEN;
+    const fenCheck = validateFen(startFen);
+    if (!fenCheck.ok) throw new Error(`Invalid FEN tag: ${fenCheck.error}`);
+
+    const moves = parseLine(cursor, startFen, 0);
+    let result = tags.Result ?? '*';
+    const end = cursor.tokens[cursor.index];
+    if (end?.type === 'result') {
+      result = end.result;
+      cursor.index++;
+    }
+
+    if (moves.length > 0 || Object.keys(tags).length > 0) {
+      games.push({ tags, startFen, moves, result });
+    }
+  }
+
+  if (games.length === 0) throw new Error('No games found in PGN');
+  return games;
+}
+
+// Validated, normalized FEN, or an error message
+export function parseFen(text: string): { fen: string } | { error: string } {
+  const fen = text.trim().replace(/\s+/g, ' ');
+  const check = validateFen(fen);
+  if (!check.ok) return { error: check.error ?? 'Invalid FEN' };
+  return { fen: new Chess(fen).fen() };
+}
+
+export function finalFen(game: PgnGame): string {
+  return game.moves.length > 0 ? game.moves[game.moves.length - 1].fen : game.startFen;
+}
+
+// The mainline as GameMoves. Engine-measured fields are left for the
+// post-game analysis to fill in; [%eval] and [%clk] are kept when present.
+// Comments in RazorChess's own exports are its move labels (written again
+// by the analysis) and the engine's thinking, so those are dropped.
+export function pgnGameToMoves(game: PgnGame, playerColor: 'white' | 'black'): GameMove[] {
+  const now = Date.now();
+  const ownExport = game.tags.RazorPersonality !== undefined;
+  const lastClock: Partial<Record<'white' | 'black', number>> = {};
+
+  return game.moves.map((node, i) => {
+    const fenBefore = i > 0 ? game.moves[i - 1].fen : game.startFen;
+    const mover = fenBefore.split(' ')[1] === 'w' ? 'white' : 'black';
+    const previousClock = lastClock[mover];
+    if (node.clockMs !== undefined) lastClock[mover] = node.clockMs;
+
+    return {
+      moveNumber: parseInt(node.fen.split(' ')[5]),
+      san: node.san,
+      uci: node.uci,
+      fen: node.fen,
+      evaluation: node.evaluation ?? 0,
+      bestEval: node.evaluation ?? 0,
+      bestLine: [],
+      centipawnLoss: 0,
+      isBlunder: false,
+      isMistake: false,
+      isInaccuracy: false,
+      isBrilliant: false,
+      timestamp: now,
+      // Clock drops are the best guess at think time (increment unknown)
+      thinkTime: previousClock !== undefined && node.clockMs !== undefined
+        ? Math.max(0, previousClock - node.clockMs)
+        : 0,
+      clockMs: node.clockMs,
+      comment: ownExport ? undefined : node.comment || undefined,
+      isPlayerMove: mover === playerColor,
+    };
+  });
+}
+
+// Best reading of how an imported game ended: the final position first,
+// then the Result and Termination tags
+export function pgnGameResult(game: PgnGame): GameResult | null {
+  const chess = new Chess(finalFen(game));
+  if (chess.isCheckmate()) return { type: 'checkmate', winner: chess.turn() === 'w' ? 'black' : 'white' };
+  if (chess.isStalemate()) return { type: 'stalemate' };
+
+  const onTime = /time/i.test(game.tags.Termination ?? '');
+  switch (game.result) {
+    case '1-0':
+      return { type: onTime ? 'timeout' : 'resignation', winner: 'white' };
+    case '0-1':
+      return { type: onTime ? 'timeout' : 'resignation', winner: 'black' };
+    case '1/2-1/2':
+      if (chess.isInsufficientMaterial()) return { type: 'draw', reason: 'insufficient' };
+      if (chess.isDrawByFiftyMoves()) return { type: 'draw', reason: 'fifty-move' };
+      return { type: 'draw', reason: 'agreement' };
+    default:
+      return null;
+  }
+}
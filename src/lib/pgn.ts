@@ -0,0 +1,207 @@
+// ============================================================
+// RazorChess — PGN Export
+// Seven Tag Roster, RazorChess tags, NAGs, [%eval] and [%clk]
+// ============================================================
+
+import { Chess } from 'chess.js';
+import { GameMove, GameResult, MoveClass, SavedGame, TimeControl } from './types';
+import { getPersonalityConfig } from './personalities';
+import { MOVE_CLASS_LABELS, isAnalyzed, moveClass } from './accuracy';
+
+const START_FEN = new Chess().fen();
+const MAX_LINE_LENGTH = 80;
+const MATE_THRESHOLD = 90000;  // |eval| above this is the ±(99999 - n) mate encoding
+
+// Standard NAGs: $1 !, $3 !!, $2 ?, $4 ??, $6 ?!, $7 forced
+const CLASS_NAGS: Partial<Record<MoveClass, string>> = {
+  brilliant: '$3',
+  great: '$1',
+  blunder: '$4',
+  mistake: '$2',
+  miss: '$2',
+  inaccuracy: '$6',
+  forced: '$7',
+};
+
+function moveNag(move: GameMove): string | null {
+  const cls = moveClass(move);
+  return cls ? CLASS_NAGS[cls] ?? null : null;
+}
+
+// Classes worth a word in the comment; good moves speak for themselves
+const COMMENTED_CLASSES: MoveClass[] = ['brilliant', 'great', 'inaccuracy', 'mistake', 'miss', 'blunder'];
+
+export function pgnResult(result: GameResult | null): string {
+  if (!result || result.type === 'aborted') return '*';
+  if ('winner' in result) return result.winner === 'white' ? '1-0' : '0-1';
+  return '1/2-1/2';
+}
+
+function terminationTag(result: GameResult | null): string {
+  if (!result) return 'unterminated';
+  if (result.type === 'timeout') return 'time forfeit';
+  if (result.type === 'abandonment') return 'abandoned';
+  return 'normal';
+}
+
+// PGN TimeControl: seconds+increment. The standard has no form for delay;
+// "300d3" is non-standard but keeps the information
+function timeControlTag(tc: TimeControl | null | undefined): string {
+  if (!tc) return '-';
+  const base = tc.initialMs / 1000;
+  if (tc.delayMs > 0) return `${base}d${tc.delayMs / 1000}`;
+  return tc.incrementMs > 0 ? `${base}+${tc.incrementMs / 1000}` : String(base);
+}
+
+// [%eval 0.35] in white-relative pawns, [%eval #-3] for mates
+function formatEval(evaluation: number): string {
+  if (Math.abs(evaluation) > MATE_THRESHOLD) {
+    const moves = 99999 - Math.abs(evaluation);
+    return `#${evaluation < 0 ? '-' : ''}${moves}`;
+  }
+  return (evaluation / 100).toFixed(2);
+}
+
+// [%clk 0:04:58]
+function formatPgnClock(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function formatDate(timestamp: number): string {
+  const d = new Date(timestamp);
+  const month = (d.getMonth() + 1).toString().padStart(2, '0');
+  const day = d.getDate().toString().padStart(2, '0');
+  return `${d.getFullYear()}.${month}.${day}`;
+}
+
+// The standard allows \" inside tag values, but many readers (chess.js
+// included) choke on it, so quotes are swapped for apostrophes instead
+function escapeTag(value: string): string {
+  return value.replace(/\\/g, '').replace(/"/g, "'");
+}
+
+// Braces can't be nested or escaped inside a PGN comment
+function escapeComment(text: string): string {
+  return text.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// The move's comment, or '' if there is nothing to say. Unanalyzed moves get
+// no [%eval]: their 0.00 is a placeholder other tools would take as real.
+function moveComment(move: GameMove): string {
+  const parts: string[] = [];
+  if (isAnalyzed(move)) parts.push(`[%eval ${formatEval(move.evaluation)}]`);
+  if (move.clockMs !== undefined) parts.push(`[%clk ${formatPgnClock(move.clockMs)}]`);
+
+  const cls = moveClass(move);
+  if (cls && COMMENTED_CLASSES.includes(cls)) {
+    const label = `${MOVE_CLASS_LABELS[cls]}.`;
+    const best = move.bestLine[0];
+    parts.push(best && best !== move.san && cls !== 'brilliant' ? `${label} ${best} was best.` : label);
+  }
+  if (move.thinking) parts.push(escapeComment(move.thinking));
+  if (move.comment) parts.push(escapeComment(move.comment));
+
+  return parts.length > 0 ? `{${parts.join(' ')}}` : '';
+}
+
+// Break movetext into lines of at most MAX_LINE_LENGTH without splitting tokens
+function wrap(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    for (const word of token.split(' ')) {
+      if (line && line.length + 1 + word.length > MAX_LINE_LENGTH) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+export function gameToPgn(game: SavedGame): string {
+  const persona = getPersonalityConfig(game.personality).displayName;
+  const playerName = game.playerName || 'Player';
+  const engineName = `${persona} (RazorChess)`;
+  const result = pgnResult(game.result);
+
+  const tags: Array<[string, string]> = [
+    ['Event', 'RazorChess game'],
+    ['Site', 'RazorChess'],
+    ['Date', formatDate(game.date)],
+    ['Round', '-'],
+    ['White', game.playerColor === 'white' ? playerName : engineName],
+    ['Black', game.playerColor === 'black' ? playerName : engineName],
+    ['Result', result],
+  ];
+  if (game.playerElo !== undefined) {
+    tags.push([game.playerColor === 'white' ? 'WhiteElo' : 'BlackElo', String(game.playerElo)]);
+  }
+  tags.push(
+    ['TimeControl', timeControlTag(game.timeControl)],
+    ['Termination', terminationTag(game.result)],
+    ['RazorPersonality', game.personality],
+    ['RazorTension', game.tensionScore.toFixed(1)],
+  );
+  if (game.playerElo !== undefined) tags.push(['RazorPlayerElo', String(game.playerElo)]);
+  if (game.takebacks) tags.push(['RazorTakebacks', String(game.takebacks)]);
+
+  const startFen = game.startFen ?? START_FEN;
+  if (startFen !== START_FEN) tags.push(['SetUp', '1'], ['FEN', startFen]);
+
+  const header = tags.map(([name, value]) => `[${name} "${escapeTag(value)}"]`).join('\n');
+
+  // Move numbers come from the position, not GameMove.moveNumber, which
+  // chess.js has already advanced by the time it is recorded for Black
+  const [, side, , , , fullmove] = startFen.split(' ');
+  let moveNumber = parseInt(fullmove);
+  let whiteToMove = side === 'w';
+
+  const tokens: string[] = [];
+  let afterComment = true;
+  for (const move of game.moves) {
+    // Black's move repeats the number after a comment: "1. e4 {...} 1... e5"
+    if (whiteToMove) tokens.push(`${moveNumber}.`);
+    else if (afterComment) tokens.push(`${moveNumber}...`);
+    tokens.push(move.san);
+
+    const nag = moveNag(move);
+    if (nag) tokens.push(nag);
+    const comment = moveComment(move);
+    if (comment) tokens.push(comment);
+    afterComment = comment !== '';
+
+    if (!whiteToMove) moveNumber++;
+    whiteToMove = !whiteToMove;
+  }
+  tokens.push(result);
+
+  return `${header}\n\n${wrap(tokens)}\n`;
+}
+
+export function gamesToPgn(games: SavedGame[]): string {
+  return games.map(gameToPgn).join('\n');
+}
+
+export function pgnFileName(game: SavedGame): string {
+  return `razorchess-${formatDate(game.date).replace(/\./g, '-')}-${game.id.slice(0, 8)}.pgn`;
+}
+
+// Hand the text to the browser as a file download
+export function downloadPgn(pgn: string, fileName: string): void {
+  if (typeof window === 'undefined') return;
+  const blob = new Blob([pgn], { type: 'application/x-chess-pgn' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
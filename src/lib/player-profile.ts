@@ -3,18 +3,62 @@
 // Tracks and updates player skill across multiple dimensions
 // ============================================================
 
-import { PlayerProfile, GameMove, StyleVector, GameState, PostGameAnalysis } from './types';
+import {
+  PlayerProfile,
+  GameMove,
+  StyleVector,
+  GameState,
+  PostGameAnalysis,
+  SavedGame,
+  EloHistory,
+  GamePhase,
+  GlickoRating,
+  MissedTactic,
+  TimeControlPool,
+} from './types';
 import { v4 as uuid } from 'uuid';
-
-const STORAGE_KEY = 'razorchess_player_profile';
-const ELO_HISTORY_KEY = 'razorchess_elo_history';
-const GAMES_KEY = 'razorchess_games';
+import { AdaptiveSnapshot } from './adaptive-engine';
+import { DEFAULT_RATING, rateGame } from './glicko';
+import { gameAccuracy, isAnalyzed } from './accuracy';
+import { countMotifs, motifName, recentMissedTactics } from './motifs';
+import {
+  STORES,
+  deleteRecord,
+  gameOutcome,
+  getAllRecords,
+  getProfileRecords,
+  getRecord,
+  isStorageAvailable,
+  putRecord,
+  queryGames,
+  requestResult,
+  toStoredGame,
+  withTransaction,
+} from './storage';
+
+const ACTIVE_PROFILE_KEY = 'razorchess_active_profile';
+const MAX_UNFINISHED_PER_PERSONALITY = 3;
+// An ended game's checkpoint untouched this long has no tab analyzing it
+const STALE_CHECKPOINT_MS = 2 * 60 * 1000;
+
+// The same tactic missed this often in a week counts as a weakness
+const MOTIF_WEAKNESS_COUNT = 3;
+
+// Game phases by move number, and how many moves a phase needs to be judged
+const OPENING_LAST_MOVE = 10;
+const ENDGAME_FIRST_MOVE = 31;
+const MIN_PHASE_MOVES = 3;
+
+// Games that end before the player's second move are aborted, not scored
+export const ABORT_MOVE_LIMIT = 2;
 
 export function createDefaultProfile(name: string = 'Player'): PlayerProfile {
   return {
     id: uuid(),
     name,
-    elo: 1200,
+    elo: DEFAULT_RATING.rating,
+    ratingDeviation: DEFAULT_RATING.deviation,
+    ratingVolatility: DEFAULT_RATING.volatility,
     openingAccuracy: 0.5,
     tacticRating: 0.5,
     endgameRating: 0.5,
@@ -27,22 +71,109 @@ export function createDefaultProfile(name: string = 'Player'): PlayerProfile {
   };
 }
 
-export function loadProfile(): PlayerProfile {
-  if (typeof window === 'undefined') return createDefaultProfile();
-  const stored = localStorage.getItem(STORAGE_KEY);
-  if (stored) {
-    try {
-      return JSON.parse(stored);
-    } catch {
-      return createDefaultProfile();
-    }
-  }
-  return createDefaultProfile();
+// Every local player, by name
+export async function loadProfiles(): Promise<PlayerProfile[]> {
+  if (!isStorageAvailable()) return [];
+  const profiles = await getAllRecords<PlayerProfile>(STORES.profiles);
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// The profile last switched to, or the first one there is. A default
+// profile is created and saved on first use.
+export async function loadProfile(): Promise<PlayerProfile> {
+  if (!isStorageAvailable()) return createDefaultProfile();
+  const activeId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  const active = activeId ? await getRecord<PlayerProfile>(STORES.profiles, activeId) : undefined;
+  if (active) return active;
+
+  const [first] = await loadProfiles();
+  const profile = first ?? createDefaultProfile();
+  if (!first) await saveProfile(profile);
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profile.id);
+  return profile;
+}
+
+// Make another profile the active one; null if it doesn't exist
+export async function switchProfile(profileId: string): Promise<PlayerProfile | null> {
+  if (!isStorageAvailable()) return null;
+  const profile = await getRecord<PlayerProfile>(STORES.profiles, profileId);
+  if (!profile) return null;
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profile.id);
+  return profile;
+}
+
+// Add a player and make them the active profile
+export async function createProfile(name: string): Promise<PlayerProfile> {
+  const profile = createDefaultProfile(name.trim() || 'Player');
+  if (!isStorageAvailable()) return profile;
+  await saveProfile(profile);
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profile.id);
+  return profile;
+}
+
+export async function saveProfile(profile: PlayerProfile): Promise<void> {
+  if (!isStorageAvailable()) return;
+  await putRecord(STORES.profiles, profile);
+}
+
+// The profile's Glicko-2 rating; older profiles start from the default
+// deviation and volatility
+export function profileRating(profile: PlayerProfile): GlickoRating {
+  return {
+    rating: profile.elo,
+    deviation: profile.ratingDeviation ?? DEFAULT_RATING.deviation,
+    volatility: profile.ratingVolatility ?? DEFAULT_RATING.volatility,
+  };
+}
+
+// The personality as a rated opponent: rated at the strength the engine
+// actually played this game, more certainly the more moves it made
+function opponentRating(gameState: GameState): Pick<GlickoRating, 'rating' | 'deviation'> {
+  const engineMoves = gameState.moves.filter(m => !m.isPlayerMove);
+  const accuracy = sideAccuracy(gameState.moves, false);
+  if (accuracy === null) return { rating: gameState.playerProfile.elo, deviation: DEFAULT_RATING.deviation };
+  return {
+    rating: accuracyToElo(accuracy),
+    deviation: DEFAULT_RATING.deviation / Math.sqrt(1 + engineMoves.length / 5),
+  };
+}
+
+// Apply one game to a rating, counting it only `weight` of a full game
+function weightedRate(
+  before: GlickoRating,
+  opponent: Pick<GlickoRating, 'rating' | 'deviation'>,
+  score: number,
+  weight: number
+): GlickoRating {
+  const rated = rateGame(before, opponent, score);
+  return {
+    rating: before.rating + (rated.rating - before.rating) * weight,
+    deviation: before.deviation + (rated.deviation - before.deviation) * weight,
+    volatility: before.volatility + (rated.volatility - before.volatility) * weight,
+  };
+}
+
+export function timeControlPool(gameState: Pick<GameState, 'timeControl'>): TimeControlPool {
+  return gameState.timeControl?.category ?? 'untimed';
+}
+
+export function movePhase(move: Pick<GameMove, 'moveNumber'>): GamePhase {
+  if (move.moveNumber <= OPENING_LAST_MOVE) return 'opening';
+  if (move.moveNumber >= ENDGAME_FIRST_MOVE) return 'endgame';
+  return 'middlegame';
 }
 
-export function saveProfile(profile: PlayerProfile): void {
-  if (typeof window === 'undefined') return;
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+// How well the player played each phase of one game, as an Elo-like number
+// on the same scale the opponent is rated on. Phases with too few moves to
+// judge are left out.
+export function phasePerformance(moves: GameMove[]): Partial<Record<GamePhase, number>> {
+  const performance: Partial<Record<GamePhase, number>> = {};
+  for (const phase of ['opening', 'middlegame', 'endgame'] as GamePhase[]) {
+    const phaseMoves = moves.filter(m => movePhase(m) === phase);
+    if (phaseMoves.filter(m => m.isPlayerMove && isAnalyzed(m)).length < MIN_PHASE_MOVES) continue;
+    performance[phase] = Math.round(accuracyToElo(sideAccuracy(phaseMoves, true)!));
+  }
+  return performance;
 }
 
 // Detect weaknesses from move history
@@ -80,6 +211,13 @@ function detectWeaknesses(moves: GameMove[]): string[] {
   return Array.from(weaknesses);
 }
 
+// Tactics the player keeps missing, e.g. "spotting knight forks"
+function tacticWeaknesses(missed: MissedTactic[]): string[] {
+  return countMotifs(missed)
+    .filter(({ count }) => count >= MOTIF_WEAKNESS_COUNT)
+    .map(({ tag }) => `spotting ${motifName(tag, 2)}`);
+}
+
 // Detect play style from move history
 function detectStyle(moves: GameMove[]): StyleVector {
   const playerMoves = moves.filter(m => m.isPlayerMove);
@@ -89,9 +227,8 @@ function detectStyle(moves: GameMove[]): StyleVector {
   const bigSwings = playerMoves.filter(m => Math.abs(m.evaluation) > 150);
   const aggressive = Math.min(1, bigSwings.length / playerMoves.length * 3);
 
-  // Positional: low centipawn loss on average, steady play
-  const avgCPL = playerMoves.reduce((s, m) => s + m.centipawnLoss, 0) / playerMoves.length;
-  const positional = Math.max(0, Math.min(1, 1 - avgCPL / 100));
+  // Positional: high accuracy, steady play
+  const positional = sideAccuracy(playerMoves, true) ?? 0.5;
 
   // Trappy: moves that aren't the best but set problems
   const suboptimalMoves = playerMoves.filter(
@@ -102,6 +239,27 @@ function detectStyle(moves: GameMove[]): StyleVector {
   return { aggressive, positional, trappy };
 }
 
+// How well the clock was used in a timed game (0-1), or null when untimed.
+// Losing on time scores 0; otherwise time trouble and finishing with most of
+// the clock unused (rushing) both pull the score down.
+function timeManagementScore(gameState: GameState): number | null {
+  const tc = gameState.timeControl;
+  if (!tc) return null;
+  const result = gameState.result;
+  if (result?.type === 'timeout' && result.winner !== gameState.playerColor) return 0;
+
+  const clocked = gameState.moves.filter(m => m.isPlayerMove && m.clockMs !== undefined);
+  if (clocked.length < 5) return null;
+
+  // Under 10% of the base time counts as time trouble
+  const troubleLine = tc.initialMs * 0.1;
+  const troubleRate = clocked.filter(m => m.clockMs! < troubleLine).length / clocked.length;
+  const finalShare = Math.min(1, clocked[clocked.length - 1].clockMs! / tc.initialMs);
+  const rushed = Math.max(0, finalShare - 0.7);
+
+  return Math.max(0, Math.min(1, 1 - troubleRate * 1.5 - rushed));
+}
+
 export function updateProfileFromGame(
   profile: PlayerProfile,
   gameState: GameState
@@ -109,59 +267,89 @@ export function updateProfileFromGame(
   const playerMoves = gameState.moves.filter(m => m.isPlayerMove);
   if (playerMoves.length === 0) return { profile, eloChange: 0 };
 
-  const totalCPL = playerMoves.reduce((sum, m) => sum + m.centipawnLoss, 0);
-  const avgCPL = totalCPL / playerMoves.length;
-  const blunders = playerMoves.filter(m => m.isBlunder).length;
-  const blunderRate = blunders / playerMoves.length;
+  // Only moves the analysis judged say how well the player played; moves
+  // recorded live carry no centipawn loss. A game whose analysis was cut
+  // short still counts for the ratings, and for play only as far as it got.
+  const judged = playerMoves.filter(isAnalyzed);
+  const blunders = judged.filter(m => m.isBlunder).length;
+  const blunderRate = judged.length > 0 ? blunders / judged.length : 0;
 
-  // Accuracy score: 0-1 based on centipawn loss
-  const accuracy = Math.max(0, Math.min(1, 1 - avgCPL / 200));
-
-  // ELO estimation from accuracy
-  const performanceElo = accuracyToElo(accuracy);
-
-  // Smooth ELO update (weighted moving average)
-  const k = Math.max(16, 40 - profile.gamesPlayed); // K-factor decreases over time
-  const expectedScore = 1 / (1 + Math.pow(10, (profile.elo - performanceElo) / 400));
+  // Accuracy score: 0-1, from the game's win-percentage accuracy
+  const accuracy = sideAccuracy(gameState.moves, true) ?? 0;
 
   // Determine game result score
   let gameScore = 0.5; // draw
-  if (gameState.result) {
-    if (gameState.result.type === 'checkmate' || gameState.result.type === 'resignation' || gameState.result.type === 'timeout') {
-      gameScore = gameState.result.winner === gameState.playerColor ? 1 : 0;
-    } else if (gameState.result.type === 'stalemate' || gameState.result.type === 'draw') {
-      gameScore = 0.5;
-    }
+  if (gameState.result && 'winner' in gameState.result) {
+    gameScore = gameState.result.winner === gameState.playerColor ? 1 : 0;
   }
 
-  const eloChange = Math.round(k * (gameScore - expectedScore));
-
-  // Detect game phases from moves
-  const openingMoves = playerMoves.filter(m => m.moveNumber <= 10);
-  const endgameMoves = playerMoves.filter(m => m.moveNumber > 30);
-
-  const openingAcc = openingMoves.length > 0
-    ? Math.max(0, Math.min(1, 1 - openingMoves.reduce((s, m) => s + m.centipawnLoss, 0) / openingMoves.length / 150))
-    : profile.openingAccuracy;
+  // A game with takebacks was assisted: the more of them, the less it counts
+  const weight = 1 / (1 + gameState.takebacks);
+
+  const opponent = opponentRating(gameState);
+  const before = profileRating(profile);
+  const after = weightedRate(before, opponent, gameScore, weight);
+  const elo = Math.max(100, Math.round(after.rating));
+  const eloChange = elo - profile.elo;
+
+  // The same game rated again in its time control and against its
+  // personality; a new pool starts from the overall rating
+  const pool = timeControlPool(gameState);
+  const poolStart = { ...DEFAULT_RATING, rating: before.rating };
+  const timeControlRatings = {
+    ...profile.timeControlRatings,
+    [pool]: weightedRate(profile.timeControlRatings?.[pool] ?? poolStart, opponent, gameScore, weight),
+  };
+  const personalityRatings = {
+    ...profile.personalityRatings,
+    [gameState.personality]: weightedRate(
+      profile.personalityRatings?.[gameState.personality] ?? poolStart, opponent, gameScore, weight
+    ),
+  };
 
-  const endgameAcc = endgameMoves.length > 0
-    ? Math.max(0, Math.min(1, 1 - endgameMoves.reduce((s, m) => s + m.centipawnLoss, 0) / endgameMoves.length / 150))
-    : profile.endgameRating;
+  // Accuracy in the opening and endgame stretches of the game
+  const openingAcc = sideAccuracy(gameState.moves.filter(m => movePhase(m) === 'opening'), true)
+    ?? profile.openingAccuracy;
+  const endgameAcc = sideAccuracy(gameState.moves.filter(m => movePhase(m) === 'endgame'), true)
+    ?? profile.endgameRating;
 
   // Blend with existing profile (exponential moving average)
-  const alpha = 0.3; // learning rate
+  const alpha = 0.3 * weight; // learning rate
+  const playAlpha = judged.length > 0 ? alpha : 0;
+  const clockScore = timeManagementScore(gameState);
+
+  const phaseRatings = { ...profile.phaseRatings };
+  for (const [phase, performance] of Object.entries(phasePerformance(gameState.moves)) as [GamePhase, number][]) {
+    const previous = phaseRatings[phase];
+    phaseRatings[phase] = previous === undefined
+      ? performance
+      : Math.round(previous * (1 - alpha) + performance * alpha);
+  }
+
+  const missedTactics = recentMissedTactics(profile.missedTactics ?? [], gameState.moves, gameState.id);
 
   const updatedProfile: PlayerProfile = {
     ...profile,
-    elo: Math.max(100, profile.elo + eloChange),
+    elo,
+    ratingDeviation: after.deviation,
+    ratingVolatility: after.volatility,
+    timeControlRatings,
+    personalityRatings,
+    phaseRatings,
     openingAccuracy: profile.openingAccuracy * (1 - alpha) + openingAcc * alpha,
-    tacticRating: profile.tacticRating * (1 - alpha) + accuracy * alpha,
+    tacticRating: profile.tacticRating * (1 - playAlpha) + accuracy * playAlpha,
     endgameRating: profile.endgameRating * (1 - alpha) + endgameAcc * alpha,
-    blunderRate: profile.blunderRate * (1 - alpha) + blunderRate * alpha,
-    styleVector: blendStyles(profile.styleVector, detectStyle(gameState.moves), alpha),
-    weaknesses: detectWeaknesses(gameState.moves),
+    blunderRate: profile.blunderRate * (1 - playAlpha) + blunderRate * playAlpha,
+    timeManagement: clockScore === null
+      ? profile.timeManagement
+      : profile.timeManagement * (1 - alpha) + clockScore * alpha,
+    styleVector: blendStyles(profile.styleVector, detectStyle(judged), playAlpha),
+    weaknesses: judged.length > 0
+      ? [...detectWeaknesses(judged), ...tacticWeaknesses(missedTactics)]
+      : profile.weaknesses,
+    missedTactics,
     gamesPlayed: profile.gamesPlayed + 1,
-    movesAnalyzed: profile.movesAnalyzed + playerMoves.length,
+    movesAnalyzed: profile.movesAnalyzed + judged.length,
   };
 
   return { profile: updatedProfile, eloChange };
@@ -175,6 +363,13 @@ function blendStyles(a: StyleVector, b: StyleVector, alpha: number): StyleVector
   };
 }
 
+// A side's game accuracy among `moves` on a 0-1 scale, or null if none of
+// its moves there were analyzed
+function sideAccuracy(moves: GameMove[], playerMoves: boolean): number | null {
+  const accuracy = gameAccuracy(moves, playerMoves);
+  return accuracy === null ? null : accuracy / 100;
+}
+
 function accuracyToElo(accuracy: number): number {
   // Map accuracy (0-1) to approximate ELO
   // 0.95+ = 2500+, 0.85 = 2000, 0.70 = 1500, 0.50 = 1000, 0.30 = 500
@@ -185,53 +380,130 @@ function accuracyToElo(accuracy: number): number {
   return 400 + accuracy * 1200;
 }
 
-// Storage helpers
-export function saveGameHistory(gameState: GameState): void {
-  if (typeof window === 'undefined') return;
-  const games = loadGameHistory();
-  games.push({
+export function toSavedGame(gameState: GameState, date: number = Date.now()): SavedGame {
+  return {
     id: gameState.id,
-    date: Date.now(),
+    date,
     moves: gameState.moves,
     result: gameState.result,
     personality: gameState.personality,
     playerColor: gameState.playerColor,
     tensionScore: gameState.tensionScore,
+    timeControl: gameState.timeControl,
+    startFen: gameState.startFen,
+    playerName: gameState.playerProfile.name,
+    playerElo: gameState.playerProfile.elo,
+    rated: gameState.rated,
+    takebacks: gameState.takebacks,
+    profileId: gameState.playerProfile.id,
+  };
+}
+
+export function isAbortable(gameState: GameState): boolean {
+  return gameState.moves.filter(m => m.isPlayerMove).length < ABORT_MOVE_LIMIT;
+}
+
+// The one place a finished game is persisted: profile, history and ELO
+// entry are written in a single transaction. Aborted and unfinished games,
+// and games already recorded, leave everything as it was.
+export async function recordFinishedGame(gameState: GameState): Promise<{ profile: PlayerProfile; eloChange: number }> {
+  if (!isStorageAvailable()) return { profile: gameState.playerProfile, eloChange: 0 };
+
+  return withTransaction([STORES.profiles, STORES.games, STORES.eloHistory], 'readwrite', async tx => {
+    const stored = await requestResult(tx.objectStore(STORES.profiles).get(gameState.playerProfile.id));
+    const current: PlayerProfile = stored ?? gameState.playerProfile;
+    const games = tx.objectStore(STORES.games);
+    const outcome = gameOutcome(gameState);
+    if (outcome === 'unfinished' || await requestResult(games.getKey(gameState.id)) !== undefined) {
+      return { profile: current, eloChange: 0 };
+    }
+
+    const { profile, eloChange } = updateProfileFromGame(current, gameState);
+    const pool = timeControlPool(gameState);
+    const entry: EloHistory = {
+      timestamp: Date.now(),
+      elo: profile.elo,
+      gameId: gameState.id,
+      opponent: gameState.personality,
+      result: outcome,
+      eloChange,
+      deviation: profile.ratingDeviation,
+      timeControl: pool,
+      timeControlElo: Math.round(profile.timeControlRatings?.[pool]?.rating ?? profile.elo),
+      personalityElo: Math.round(profile.personalityRatings?.[gameState.personality]?.rating ?? profile.elo),
+      phaseRatings: profile.phaseRatings,
+      profileId: profile.id,
+    };
+    tx.objectStore(STORES.profiles).put(profile);
+    games.put(toStoredGame(toSavedGame(gameState)));
+    tx.objectStore(STORES.eloHistory).put(entry);
+    return { profile, eloChange };
   });
-  // Keep last 100 games
-  if (games.length > 100) games.splice(0, games.length - 100);
-  localStorage.setItem(GAMES_KEY, JSON.stringify(games));
-}
-
-export function loadGameHistory(): Array<{
-  id: string;
-  date: number;
-  moves: GameMove[];
-  result: GameState['result'];
-  personality: string;
-  playerColor: string;
-  tensionScore: number;
-}> {
-  if (typeof window === 'undefined') return [];
-  const stored = localStorage.getItem(GAMES_KEY);
-  if (stored) {
-    try { return JSON.parse(stored); } catch { return []; }
-  }
-  return [];
 }
 
-export function saveEloHistory(entry: { timestamp: number; elo: number; gameId: string; opponent: string; result: string }): void {
-  if (typeof window === 'undefined') return;
-  const history = loadEloHistory();
-  history.push(entry);
-  localStorage.setItem(ELO_HISTORY_KEY, JSON.stringify(history));
+// Storage helpers, per player
+export async function loadGameHistory(profileId: string): Promise<SavedGame[]> {
+  if (!isStorageAvailable()) return [];
+  return queryGames({ profileId });
+}
+
+export async function loadEloHistory(profileId: string): Promise<EloHistory[]> {
+  if (!isStorageAvailable()) return [];
+  const history = await getProfileRecords<EloHistory>(STORES.eloHistory, profileId);
+  return history.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// A game in progress as of its last move, with what the adaptive engine
+// had learned about the player so far. A game that has ended keeps its
+// checkpoint, with the result set, until it is recorded.
+export interface GameCheckpoint {
+  state: GameState;
+  adaptive: AdaptiveSnapshot | null;
+  savedAt: number;
 }
 
-export function loadEloHistory(): Array<{ timestamp: number; elo: number; gameId: string; opponent: string; result: string }> {
-  if (typeof window === 'undefined') return [];
-  const stored = localStorage.getItem(ELO_HISTORY_KEY);
-  if (stored) {
-    try { return JSON.parse(stored); } catch { return []; }
+// A player's unfinished games, most recently played first
+export async function loadActiveGames(profileId: string): Promise<GameCheckpoint[]> {
+  if (!isStorageAvailable()) return [];
+  const checkpoints = await getProfileRecords<GameCheckpoint>(STORES.activeGames, profileId);
+  return checkpoints.filter(c => !c.state.result).sort((a, b) => b.savedAt - a.savedAt);
+}
+
+// Record the games that ended but were closed or reloaded before their
+// analysis finished, as they stood. Returns how many there were. A tab
+// still analyzing a game keeps its checkpoint fresh, so it is left alone.
+export async function recordInterruptedGames(now: number = Date.now()): Promise<number> {
+  if (!isStorageAvailable()) return 0;
+  const checkpoints = await getAllRecords<GameCheckpoint>(STORES.activeGames);
+  const ended = checkpoints.filter(c => c.state.result && now - c.savedAt > STALE_CHECKPOINT_MS);
+  for (const { state } of ended) {
+    await recordFinishedGame(state);
+    await clearActiveGame(state.id);
   }
-  return [];
+  return ended.length;
+}
+
+// Checkpoint a game after a move. Each player keeps their few most recent
+// unfinished games against each persona; older ones are dropped. Ended
+// games waiting to be recorded neither count nor get dropped.
+export async function saveActiveGame(checkpoint: GameCheckpoint): Promise<void> {
+  if (!isStorageAvailable()) return;
+  await withTransaction([STORES.activeGames], 'readwrite', async tx => {
+    const store = tx.objectStore(STORES.activeGames);
+    const profileId = checkpoint.state.playerProfile.id;
+    if (!checkpoint.state.result) {
+      const all = await requestResult(store.index('profileId').getAll(profileId)) as GameCheckpoint[];
+      all
+        .filter(c => !c.state.result && c.state.id !== checkpoint.state.id && c.state.personality === checkpoint.state.personality)
+        .sort((a, b) => b.savedAt - a.savedAt)
+        .slice(MAX_UNFINISHED_PER_PERSONALITY - 1)
+        .forEach(c => store.delete(c.state.id));
+    }
+    store.put(checkpoint);
+  });
+}
+
+export async function clearActiveGame(gameId: string): Promise<void> {
+  if (!isStorageAvailable()) return;
+  await deleteRecord(STORES.activeGames, gameId);
 }
@@ -0,0 +1,54 @@
+// ============================================================
+// RazorChess — Sacrifice Detection
+// Static exchange evaluation, and how much material a move
+// leaves the opponent free to win
+// ============================================================
+
+import { Chess, Move, PieceSymbol, Square } from 'chess.js';
+
+// Pawns; the king is never captured, so its value only orders attackers
+export const PIECE_VALUES: Record<PieceSymbol, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 100 };
+
+// Material a move wins outright: what it captures, plus what a promotion adds
+function moveGain(move: Move): number {
+  const captured = move.captured ? PIECE_VALUES[move.captured] : 0;
+  const promoted = move.promotion ? PIECE_VALUES[move.promotion] - PIECE_VALUES.p : 0;
+  return captured + promoted;
+}
+
+// What the side to move wins by trading off on `square`, capturing with the
+// least valuable piece each time and stopping whenever going on would cost
+// more than it wins. Only legal captures count, so pinned pieces don't join
+// in, and pieces lined up behind a capturer join once it has gone.
+export function staticExchange(chess: Chess, square: Square): number {
+  const captures = chess.moves({ verbose: true }).filter(m => m.to === square && m.captured);
+  if (captures.length === 0) return 0;
+
+  const least = captures.reduce((a, b) => PIECE_VALUES[b.piece] < PIECE_VALUES[a.piece] ? b : a);
+  chess.move(least);
+  const gain = moveGain(least) - staticExchange(chess, square);
+  chess.undo();
+  return Math.max(0, gain);
+}
+
+// Material (in pawns) the mover gives up with `uciMove`: the most the
+// opponent can then win by exchanges on any one square, less what the move
+// itself captured. Zero or less means nothing was sacrificed.
+export function sacrificedMaterial(fenBefore: string, uciMove: string): number {
+  const chess = new Chess(fenBefore);
+  let played: Move;
+  try {
+    played = chess.move({ from: uciMove.slice(0, 2), to: uciMove.slice(2, 4), promotion: uciMove[4] });
+  } catch {
+    return 0;
+  }
+
+  let opponentGain = 0;
+  for (const row of chess.board()) {
+    for (const piece of row) {
+      if (!piece || piece.color !== played.color || piece.type === 'k') continue;
+      opponentGain = Math.max(opponentGain, staticExchange(chess, piece.square));
+    }
+  }
+  return opponentGain - moveGain(played);
+}
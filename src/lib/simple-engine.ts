@@ -3,8 +3,12 @@
 // All heavy computation runs off the main thread
 // ============================================================
 
-import { MoveAnalysis, PositionEval } from './types';
-import { ChessEngineInterface } from './engine-interface';
+import { MoveAnalysis, PositionEval, StopReason } from './types';
+import { ChessEngineInterface, SearchLimits, SearchOptions, normalizeLimits, timeForMove } from './engine-interface';
+import { LatestValueStream, linkedAbortController } from './eval-stream';
+
+const WORKER_TIME_MARGIN_MS = 500;
+const DEFAULT_TIMEOUT_MS = 5000;
 
 export class SimpleEngine implements ChessEngineInterface {
   private worker: Worker | null = null;
@@ -13,11 +17,17 @@ export class SimpleEngine implements ChessEngineInterface {
     resolve: (v: PositionEval) => void;
     reject: (e: Error) => void;
     timer: ReturnType<typeof setTimeout>;
+    startTimer: () => ReturnType<typeof setTimeout>;
+    message: object;            // the evaluate request, kept to resend after a restart
+    cleanup?: () => void;
+    onPartial?: (partial: PositionEval) => void;
+    lastPartial?: PositionEval;
   }>();
-  private maxDepth: number;
+  private defaultDepth: number;
 
+  // `depth` is only the default for callers that don't pass their own limits
   constructor(depth: number = 4) {
-    this.maxDepth = depth;
+    this.defaultDepth = depth;
   }
 
   private ensureWorker(): Worker {
@@ -27,11 +37,19 @@ export class SimpleEngine implements ChessEngineInterface {
       this.worker = new Worker(workerUrl, { type: 'module' });
 
       this.worker.onmessage = (e: MessageEvent) => {
-        const { id, result, error } = e.data;
+        const { id, result, partial, error } = e.data;
         const entry = this.pending.get(id);
         if (!entry) return;
+
+        if (partial) {
+          entry.lastPartial = partial as PositionEval;
+          entry.onPartial?.(entry.lastPartial);
+          return;
+        }
+
         this.pending.delete(id);
         clearTimeout(entry.timer);
+        entry.cleanup?.();
 
         if (error) {
           entry.reject(new Error(error));
@@ -47,42 +65,106 @@ export class SimpleEngine implements ChessEngineInterface {
     return this.worker;
   }
 
-  async evaluate(fen: string, depth?: number, multiPV: number = 5): Promise<PositionEval> {
-    const searchDepth = Math.min(depth || this.maxDepth, this.maxDepth);
+  // The worker can't be interrupted mid-search, so a search nobody is
+  // waiting for any more is stopped by replacing the worker. Requests queued
+  // behind it go to the new one, with their timers started afresh.
+  private restartWorker(): void {
+    if (!this.worker) return;
+    this.worker.terminate();
+    this.worker = null;
+    for (const entry of this.pending.values()) {
+      clearTimeout(entry.timer);
+      entry.timer = entry.startTimer();
+      this.ensureWorker().postMessage(entry.message);
+    }
+  }
+
+  async evaluate(
+    fen: string,
+    limits?: number | SearchLimits,
+    multiPV: number = 5,
+    options: SearchOptions = {}
+  ): Promise<PositionEval> {
+    return this.request(fen, limits, multiPV, options);
+  }
+
+  async *evaluateStream(
+    fen: string,
+    limits?: number | SearchLimits,
+    multiPV: number = 5,
+    options: SearchOptions = {}
+  ): AsyncGenerator<PositionEval> {
+    const stream = new LatestValueStream<PositionEval>();
+    const controller = linkedAbortController(options.signal);
+
+    this.request(fen, limits, multiPV, { ...options, signal: controller.signal }, p => stream.push(p))
+      .then(result => stream.end(result))
+      .catch(err => stream.fail(err));
+
+    try {
+      yield* stream;
+    } finally {
+      // Drops the pending reply if the consumer stopped iterating early
+      controller.abort();
+    }
+  }
+
+  private request(
+    fen: string,
+    limits: number | SearchLimits | undefined,
+    multiPV: number,
+    options: SearchOptions,
+    onPartial?: (partial: PositionEval) => void
+  ): Promise<PositionEval> {
+    const searchLimits = normalizeLimits(limits, this.defaultDepth);
     const id = ++this.requestId;
+    const { signal } = options;
+
+    // The safety net always leaves room for the requested time budget
+    const budget = timeForMove(searchLimits, fen.split(' ')[1] !== 'b') ?? 0;
+    const TIMEOUT_MS = options.timeoutMs ?? Math.max(DEFAULT_TIMEOUT_MS, budget + 2 * WORKER_TIME_MARGIN_MS);
 
-    const TIMEOUT_MS = 5000;
+    if (signal?.aborted) return Promise.resolve(fallbackEval(fen, 'aborted'));
 
     return new Promise<PositionEval>((resolve, reject) => {
-      const timer = setTimeout(() => {
+      // Settles early with whatever the worker has streamed so far
+      const settle = (stopReason: StopReason) => {
+        const entry = this.pending.get(id);
         this.pending.delete(id);
+        cleanup();
+        if (entry) clearTimeout(entry.timer);
+        resolve(entry?.lastPartial ? { ...entry.lastPartial, stopReason } : fallbackEval(fen, stopReason));
+        if (entry && stopReason !== 'error') {
+          try {
+            this.restartWorker();
+          } catch (err) {
+            console.error('[SimpleEngine] Failed to restart worker:', err);
+          }
+        }
+      };
+
+      const onAbort = () => {
+        if (this.pending.has(id)) settle('aborted');
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+      const startTimer = () => setTimeout(() => {
         console.warn(`[SimpleEngine] evaluate() timed out after ${TIMEOUT_MS}ms for ${fen}`);
-        // Return a neutral fallback evaluation
-        resolve({
-          fen,
-          bestMoves: [],
-          evaluation: 0,
-          depth: 0,
-          mate: null,
-        });
+        settle('timeout');
       }, TIMEOUT_MS);
 
-      this.pending.set(id, { resolve, reject, timer });
+      // The worker deepens iteratively and returns its best completed depth
+      // a little before our own timeout would fire
+      const safetyMs = Math.max(50, TIMEOUT_MS - WORKER_TIME_MARGIN_MS);
+      const message = { id, type: 'evaluate', fen, limits: searchLimits, multiPV, stream: !!onPartial, safetyMs };
+      this.pending.set(id, { resolve, reject, timer: startTimer(), startTimer, message, cleanup, onPartial });
 
       try {
-        const w = this.ensureWorker();
-        w.postMessage({ id, type: 'evaluate', fen, depth: searchDepth, multiPV });
+        this.ensureWorker().postMessage(message);
       } catch (err) {
-        this.pending.delete(id);
-        clearTimeout(timer);
         console.error('[SimpleEngine] Failed to post to worker:', err);
-        resolve({
-          fen,
-          bestMoves: [],
-          evaluation: 0,
-          depth: 0,
-          mate: null,
-        });
+        settle('error');
       }
     });
   }
@@ -92,6 +174,11 @@ export class SimpleEngine implements ChessEngineInterface {
     return result.bestMoves;
   }
 
+  async newGame(): Promise<void> {
+    // Clears the worker's transposition table and move-ordering history
+    this.worker?.postMessage({ type: 'newgame' });
+  }
+
   destroy(): void {
     if (this.worker) {
       this.worker.terminate();
@@ -99,8 +186,21 @@ export class SimpleEngine implements ChessEngineInterface {
     }
     for (const [, entry] of this.pending) {
       clearTimeout(entry.timer);
+      entry.cleanup?.();
       entry.reject(new Error('Engine destroyed'));
     }
     this.pending.clear();
   }
 }
+
+// Nothing was searched: depth 0 and the reason tell callers not to trust the 0.00
+function fallbackEval(fen: string, stopReason: StopReason): PositionEval {
+  return {
+    fen,
+    bestMoves: [],
+    evaluation: 0,
+    depth: 0,
+    mate: null,
+    stopReason,
+  };
+}
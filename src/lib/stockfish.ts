@@ -3,48 +3,135 @@
 // Communicates with Stockfish via Web Worker + UCI protocol
 // ============================================================
 
-import { MoveAnalysis, PositionEval } from './types';
+import { MoveAnalysis, PositionEval, StopReason } from './types';
+import { ChessEngineInterface, SearchLimits, SearchOptions, hasClock, normalizeLimits } from './engine-interface';
+import { LatestValueStream, linkedAbortController } from './eval-stream';
+import { uciLineToSan } from './notation';
 
-export class StockfishEngine {
+export const DEFAULT_STOCKFISH_PATH = '/stockfish/stockfish-nnue-16-single.js';
+
+const DEFAULT_SEARCH_TIMEOUT_MS = 30000;
+// How long we wait for `bestmove` after sending `stop` before giving up on the engine
+const STOP_GRACE_MS = 2000;
+const DEFAULT_DEPTH = 18;
+
+// Forwarded to `go` as-is, in this order
+const GO_PARAMS = ['depth', 'nodes', 'movetime', 'wtime', 'btime', 'winc', 'binc', 'movestogo'] as const;
+
+interface SearchOutcome {
+  lines: string[];
+  // Set when we sent `stop` ourselves; otherwise the engine hit one of the limits
+  forcedStop?: 'timeout' | 'aborted';
+}
+
+interface SearchJob {
+  kind: 'search';
+  fen: string;
+  limits: SearchLimits;
+  multiPV: number;
+  timeoutMs: number;
+  signal?: AbortSignal;
+  lines: string[];
+  stopped: boolean;
+  forcedStop?: 'timeout' | 'aborted';
+  timers: Array<ReturnType<typeof setTimeout>>;
+  resolve: (outcome: SearchOutcome) => void;
+  reject: (err: Error) => void;
+  onAbort?: () => void;
+  onInfo?: (lines: string[]) => void;
+}
+
+interface NewGameJob {
+  kind: 'newgame';
+  resolve: () => void;
+  reject: (err: Error) => void;
+}
+
+type EngineJob = SearchJob | NewGameJob;
+
+function goCommand(limits: SearchLimits): string {
+  const parts = ['go'];
+  for (const param of GO_PARAMS) {
+    const value = limits[param];
+    if (value !== undefined) parts.push(param, String(Math.max(0, Math.round(value))));
+  }
+  return parts.join(' ');
+}
+
+function lastNodeCount(lines: string[]): number {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const match = lines[i].match(/ nodes (\d+)/);
+    if (match) return parseInt(match[1]);
+  }
+  return 0;
+}
+
+// Why a search that ended with `bestmove` on its own stopped
+function limitReason(limits: SearchLimits, depth: number, lines: string[]): StopReason {
+  if (limits.depth !== undefined && depth >= limits.depth) return 'completed';
+  const timed = limits.movetime !== undefined || hasClock(limits);
+  if (limits.nodes !== undefined && (!timed || lastNodeCount(lines) >= limits.nodes)) return 'nodes';
+  return timed ? 'time' : 'completed';
+}
+
+export class StockfishEngine implements ChessEngineInterface {
   private worker: Worker | null = null;
+  private workerPath: string;
   private ready = false;
-  private resolveQueue: Array<(value: string[]) => void> = [];
-  private outputBuffer: string[] = [];
-  private isCollecting = false;
+  private initPromise: Promise<void> | null = null;
+
+  // UCI is strictly one search at a time: everything goes through a FIFO and
+  // only the job at the head may talk to the engine
+  private queue: EngineJob[] = [];
+  private active: EngineJob | null = null;
+  private readyWaiters: Array<() => void> = [];
+  private currentMultiPV = 0;
+
+  constructor(workerPath: string = DEFAULT_STOCKFISH_PATH) {
+    this.workerPath = workerPath;
+  }
 
   async init(): Promise<void> {
     if (this.ready) return;
+    if (this.initPromise) return this.initPromise;
 
-    return new Promise((resolve, reject) => {
+    this.initPromise = new Promise<void>((resolve, reject) => {
       try {
-        // Use stockfish.js WASM build via CDN worker
-        this.worker = new Worker('/stockfish/stockfish-nnue-16-single.js');
+        // Use the stockfish.js WASM build served from public/
+        this.worker = new Worker(this.workerPath);
 
         this.worker.onmessage = (e: MessageEvent) => {
           const line = typeof e.data === 'string' ? e.data : String(e.data);
 
-          if (this.isCollecting) {
-            this.outputBuffer.push(line);
-          }
-
           if (line === 'uciok') {
             this.ready = true;
             resolve();
+            return;
+          }
+
+          if (line === 'readyok') {
+            this.readyWaiters.shift()?.();
+            return;
           }
 
-          if (line.startsWith('bestmove') && this.resolveQueue.length > 0) {
-            this.outputBuffer.push(line);
-            this.isCollecting = false;
-            const resolver = this.resolveQueue.shift();
-            if (resolver) {
-              resolver([...this.outputBuffer]);
-              this.outputBuffer = [];
+          const job = this.active;
+          if (!job || job.kind !== 'search') return;
+
+          if (line.startsWith('info')) {
+            job.lines.push(line);
+            // The first MultiPV line of each depth carries the new best line
+            if (job.onInfo && line.includes(' score ') && line.includes(' pv ') && !/ multipv [2-9]/.test(line)) {
+              job.onInfo(job.lines);
             }
+          } else if (line.startsWith('bestmove')) {
+            job.lines.push(line);
+            this.finishSearch(job);
           }
         };
 
         this.worker.onerror = (e) => {
           console.error('Stockfish worker error:', e);
+          this.failAll(new Error('Stockfish worker crashed'));
           reject(e);
         };
 
@@ -53,6 +140,12 @@ export class StockfishEngine {
         reject(err);
       }
     });
+
+    try {
+      await this.initPromise;
+    } finally {
+      this.initPromise = null;
+    }
   }
 
   private send(command: string): void {
@@ -60,24 +153,212 @@ export class StockfishEngine {
     this.worker.postMessage(command);
   }
 
-  private async collectOutput(command: string): Promise<string[]> {
-    return new Promise((resolve) => {
-      this.isCollecting = true;
-      this.outputBuffer = [];
-      this.resolveQueue.push(resolve);
-      this.send(command);
+  // isready/readyok round trip: the engine has processed everything sent before it
+  private waitReady(): Promise<void> {
+    return new Promise(resolve => {
+      this.readyWaiters.push(resolve);
+      this.send('isready');
     });
   }
 
-  async evaluate(fen: string, depth: number = 18, multiPV: number = 5): Promise<PositionEval> {
-    if (!this.ready) await this.init();
+  private enqueue(job: EngineJob): void {
+    this.queue.push(job);
+    this.pump();
+  }
 
+  private pump(): void {
+    // While the worker restarts, jobs wait in the queue
+    if (this.active || this.queue.length === 0 || !this.ready) return;
+    const job = this.queue.shift()!;
+    this.active = job;
+
+    const run = job.kind === 'search' ? this.startSearch(job) : this.startNewGame(job);
+    run.catch(err => {
+      if (this.active !== job) return;
+      this.active = null;
+      job.reject(err instanceof Error ? err : new Error(String(err)));
+      this.pump();
+    });
+  }
+
+  private async startNewGame(job: NewGameJob): Promise<void> {
     this.send('ucinewgame');
-    this.send(`setoption name MultiPV value ${multiPV}`);
-    this.send(`position fen ${fen}`);
+    await this.waitReady();
+    this.active = null;
+    job.resolve();
+    this.pump();
+  }
 
-    const output = await this.collectOutput(`go depth ${depth}`);
-    return this.parseOutput(output, fen, multiPV);
+  private async startSearch(job: SearchJob): Promise<void> {
+    if (job.multiPV !== this.currentMultiPV) {
+      this.send(`setoption name MultiPV value ${job.multiPV}`);
+      this.currentMultiPV = job.multiPV;
+    }
+    this.send(`position fen ${job.fen}`);
+    await this.waitReady();
+
+    // Aborted while we were waiting for readyok: never start the search
+    if (job.signal?.aborted) {
+      this.active = null;
+      this.resolveAborted(job);
+      this.pump();
+      return;
+    }
+
+    this.send(goCommand(job.limits));
+    job.timers.push(setTimeout(() => this.stopSearch(job, 'timeout'), job.timeoutMs));
+  }
+
+  // Ask the engine to wrap up; the job still completes when `bestmove` arrives
+  private stopSearch(job: SearchJob, reason: 'timeout' | 'aborted'): void {
+    if (this.active !== job || job.stopped) return;
+    job.stopped = true;
+    job.forcedStop = reason;
+    this.send('stop');
+    job.timers.push(setTimeout(() => {
+      if (this.active !== job) return;
+      console.warn('[StockfishEngine] No bestmove after stop, restarting engine');
+      this.active = null;
+      this.clearJob(job);
+      job.reject(new Error('Stockfish stopped responding'));
+      this.restartWorker();
+    }, STOP_GRACE_MS));
+  }
+
+  // The dropped search's late output would be credited to the next job, so
+  // the worker is replaced instead; queued jobs run once the new one is up
+  private restartWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.ready = false;
+    this.currentMultiPV = 0;
+    this.readyWaiters = [];
+    this.init()
+      .then(() => this.pump())
+      .catch(err => this.failAll(err instanceof Error ? err : new Error(String(err))));
+  }
+
+  private finishSearch(job: SearchJob): void {
+    this.active = null;
+    this.clearJob(job);
+    // An abort that lands after a timeout stop still counts as an abort
+    const forcedStop = job.signal?.aborted ? 'aborted' : job.forcedStop;
+    job.resolve({ lines: job.lines, forcedStop });
+    this.pump();
+  }
+
+  private clearJob(job: SearchJob): void {
+    for (const timer of job.timers) clearTimeout(timer);
+    job.timers = [];
+    if (job.onAbort) job.signal?.removeEventListener('abort', job.onAbort);
+  }
+
+  // Never reached the engine: nothing searched, but still a result
+  private resolveAborted(job: SearchJob): void {
+    this.clearJob(job);
+    job.resolve({ lines: [], forcedStop: 'aborted' });
+  }
+
+  private failAll(err: Error): void {
+    const jobs = this.active ? [this.active, ...this.queue] : [...this.queue];
+    this.active = null;
+    this.queue = [];
+    this.readyWaiters = [];
+    for (const job of jobs) {
+      if (job.kind === 'search') this.clearJob(job);
+      job.reject(err);
+    }
+  }
+
+  private search(
+    fen: string,
+    limits: SearchLimits,
+    multiPV: number,
+    options: SearchOptions,
+    onInfo?: (lines: string[]) => void
+  ): Promise<SearchOutcome> {
+    return new Promise<SearchOutcome>((resolve, reject) => {
+      const job: SearchJob = {
+        kind: 'search',
+        fen,
+        limits,
+        multiPV,
+        timeoutMs: options.timeoutMs ?? DEFAULT_SEARCH_TIMEOUT_MS,
+        signal: options.signal,
+        lines: [],
+        stopped: false,
+        timers: [],
+        resolve,
+        reject,
+        onInfo,
+      };
+
+      if (options.signal) {
+        if (options.signal.aborted) {
+          resolve({ lines: [], forcedStop: 'aborted' });
+          return;
+        }
+        job.onAbort = () => {
+          const queued = this.queue.indexOf(job);
+          if (queued >= 0) {
+            this.queue.splice(queued, 1);
+            this.resolveAborted(job);
+          } else {
+            this.stopSearch(job, 'aborted');
+          }
+        };
+        options.signal.addEventListener('abort', job.onAbort, { once: true });
+      }
+
+      this.enqueue(job);
+    });
+  }
+
+  async evaluate(
+    fen: string,
+    limits?: number | SearchLimits,
+    multiPV: number = 5,
+    options: SearchOptions = {}
+  ): Promise<PositionEval> {
+    if (!this.ready) await this.init();
+
+    const searchLimits = normalizeLimits(limits, DEFAULT_DEPTH);
+    const outcome = await this.search(fen, searchLimits, multiPV, options);
+    return this.finalResult(outcome, fen, multiPV, searchLimits);
+  }
+
+  async *evaluateStream(
+    fen: string,
+    limits?: number | SearchLimits,
+    multiPV: number = 5,
+    options: SearchOptions = {}
+  ): AsyncGenerator<PositionEval> {
+    if (!this.ready) await this.init();
+
+    const stream = new LatestValueStream<PositionEval>();
+    const controller = linkedAbortController(options.signal);
+    const searchLimits = normalizeLimits(limits, DEFAULT_DEPTH);
+
+    this.search(fen, searchLimits, multiPV, { ...options, signal: controller.signal },
+      lines => stream.push(this.parseOutput(lines, fen, multiPV)))
+      .then(outcome => stream.end(this.finalResult(outcome, fen, multiPV, searchLimits)))
+      .catch(err => stream.fail(err));
+
+    try {
+      yield* stream;
+    } finally {
+      // No-op once the search is done; stops it if the consumer bailed early
+      controller.abort();
+    }
+  }
+
+  // Clear the hash and engine state; only call this between games
+  async newGame(): Promise<void> {
+    if (!this.ready) await this.init();
+
+    return new Promise<void>((resolve, reject) => {
+      this.enqueue({ kind: 'newgame', resolve, reject });
+    });
   }
 
   async getTopMoves(fen: string, count: number = 10, depth: number = 16): Promise<MoveAnalysis[]> {
@@ -85,6 +366,12 @@ export class StockfishEngine {
     return result.bestMoves;
   }
 
+  private finalResult(outcome: SearchOutcome, fen: string, multiPV: number, limits: SearchLimits): PositionEval {
+    const result = this.parseOutput(outcome.lines, fen, multiPV);
+    const stopReason = outcome.forcedStop ?? limitReason(limits, result.depth, outcome.lines);
+    return { ...result, stopReason };
+  }
+
   private parseOutput(lines: string[], fen: string, multiPV: number): PositionEval {
     const moves: Map<number, MoveAnalysis> = new Map();
     let bestEval = 0;
@@ -97,20 +384,20 @@ export class StockfishEngine {
       const depthMatch = line.match(/depth (\d+)/);
       const pvMatch = line.match(/multipv (\d+)/);
       const scoreMatch = line.match(/score (cp|mate) (-?\d+)/);
-      const moveMatch = line.match(/ pv (\S+)/);
+      const lineMatch = line.match(/ pv (.+)$/);
 
-      if (!depthMatch || !scoreMatch || !moveMatch) continue;
+      if (!depthMatch || !scoreMatch || !lineMatch) continue;
 
       const depth = parseInt(depthMatch[1]);
       const pvNum = pvMatch ? parseInt(pvMatch[1]) : 1;
       const scoreType = scoreMatch[1];
       const scoreValue = parseInt(scoreMatch[2]);
-      const move = moveMatch[1];
+      const pv = lineMatch[1].trim().split(/\s+/);
+      const move = pv[0];
 
       let evaluation: number;
       if (scoreType === 'mate') {
         evaluation = scoreValue > 0 ? 99999 - scoreValue : -99999 - scoreValue;
-        if (pvNum === 1) mate = scoreValue;
       } else {
         evaluation = scoreValue;
       }
@@ -121,23 +408,34 @@ export class StockfishEngine {
 
       const existing = moves.get(pvNum);
       if (!existing || depth >= (existing.depth || 0)) {
+        // SAN is filled in once per line below, not for every info update
         moves.set(pvNum, {
           move,
-          san: move, // Will be converted by chess.js in the caller
+          san: move,
           evaluation,
           depth,
           isPV: pvNum === 1,
+          pv,
+          pvSan: [],
         });
 
         if (pvNum === 1) {
           bestEval = evaluation;
           bestDepth = depth;
+          mate = scoreType === 'mate' ? scoreValue : null;
         }
       }
     }
 
-    const bestMoves = Array.from(moves.values())
-      .sort((a, b) => b.evaluation - a.evaluation);
+    // MultiPV numbering is already best-first for the side to move; sorting
+    // by the white-relative eval would put Black's best move last
+    const bestMoves = Array.from(moves.entries())
+      .sort(([a], [b]) => a - b)
+      .slice(0, multiPV)
+      .map(([, move]) => {
+        const pvSan = uciLineToSan(fen, move.pv);
+        return { ...move, san: pvSan[0] ?? move.move, pvSan };
+      });
 
     return {
       fen,
@@ -153,7 +451,9 @@ export class StockfishEngine {
       this.worker.terminate();
       this.worker = null;
       this.ready = false;
+      this.currentMultiPV = 0;
     }
+    this.failAll(new Error('Engine destroyed'));
   }
 }
 
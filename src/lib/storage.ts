@@ -0,0 +1,238 @@
+// ============================================================
+// RazorChess — Local Database
+// IndexedDB stores for the profile, game history, ELO history
+// and unfinished games, with versioned schema migrations
+// ============================================================
+
+import { EloHistory, GameResult, PlayerProfile, SavedGame } from './types';
+
+const DB_NAME = 'razorchess';
+
+export const STORES = {
+  profiles: 'profiles',
+  games: 'games',
+  eloHistory: 'eloHistory',
+  activeGames: 'activeGames',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+export type GameOutcome = 'win' | 'loss' | 'draw' | 'unfinished';
+
+// Games are stored with their outcome for the player, so it can be indexed
+type StoredGame = SavedGame & { outcome: GameOutcome };
+
+export interface GameQuery {
+  profileId?: string;
+  personality?: SavedGame['personality'];
+  outcome?: GameOutcome;
+  from?: number;              // date range, inclusive, in ms
+  to?: number;
+}
+
+// Where everything lived before IndexedDB
+const LEGACY_KEYS = {
+  profile: 'razorchess_player_profile',
+  eloHistory: 'razorchess_elo_history',
+  games: 'razorchess_games',
+  activeGames: 'razorchess_active_games',
+};
+
+// Schema migrations: step i upgrades a database at version i to i + 1.
+// Change the schema by appending a step; never edit one that has shipped.
+const MIGRATIONS: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  // 1: initial stores, filled from the old localStorage keys
+  (db, tx) => {
+    db.createObjectStore(STORES.profiles, { keyPath: 'id' });
+    const games = db.createObjectStore(STORES.games, { keyPath: 'id' });
+    games.createIndex('date', 'date');
+    games.createIndex('personality', 'personality');
+    games.createIndex('outcome', 'outcome');
+    const eloHistory = db.createObjectStore(STORES.eloHistory, { keyPath: 'gameId' });
+    eloHistory.createIndex('timestamp', 'timestamp');
+    const activeGames = db.createObjectStore(STORES.activeGames, { keyPath: 'state.id' });
+    activeGames.createIndex('savedAt', 'savedAt');
+    importLegacyData(tx);
+  },
+  // 2: per-player data, keyed by profile id. Everything saved so far
+  // belonged to the one profile there was.
+  (_db, tx) => {
+    const games = tx.objectStore(STORES.games);
+    const eloHistory = tx.objectStore(STORES.eloHistory);
+    games.createIndex('profileId', 'profileId');
+    eloHistory.createIndex('profileId', 'profileId');
+    tx.objectStore(STORES.activeGames).createIndex('profileId', 'state.playerProfile.id');
+
+    const profiles = tx.objectStore(STORES.profiles).getAll();
+    profiles.onsuccess = () => {
+      const [owner] = profiles.result as PlayerProfile[];
+      if (!owner) return;
+      assignOwner<SavedGame>(games, owner.id);
+      assignOwner<EloHistory>(eloHistory, owner.id);
+    };
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function gameOutcome(game: { result: GameResult | null; playerColor: 'white' | 'black' }): GameOutcome {
+  if (!game.result || game.result.type === 'aborted') return 'unfinished';
+  if ('winner' in game.result) return game.result.winner === game.playerColor ? 'win' : 'loss';
+  return 'draw';
+}
+
+export function toStoredGame(game: SavedGame): StoredGame {
+  return { ...game, outcome: gameOutcome(game) };
+}
+
+function readLegacy<T>(key: string): T[] {
+  const stored = localStorage.getItem(key);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return [];
+  }
+}
+
+// Copy the localStorage data into the new stores; the old keys are removed
+// once the upgrade has committed
+function importLegacyData(tx: IDBTransaction): void {
+  if (typeof localStorage === 'undefined') return;
+  for (const profile of readLegacy(LEGACY_KEYS.profile)) tx.objectStore(STORES.profiles).put(profile);
+  for (const game of readLegacy<SavedGame>(LEGACY_KEYS.games)) tx.objectStore(STORES.games).put(toStoredGame(game));
+  for (const entry of readLegacy(LEGACY_KEYS.eloHistory)) tx.objectStore(STORES.eloHistory).put(entry);
+  for (const checkpoint of readLegacy(LEGACY_KEYS.activeGames)) tx.objectStore(STORES.activeGames).put(checkpoint);
+  tx.addEventListener('complete', () => {
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+  });
+}
+
+// Stamp every record in the store that has no owner with the given profile
+function assignOwner<T extends { profileId?: string }>(store: IDBObjectStore, profileId: string): void {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const record = cursor.value as T;
+    if (!record.profileId) cursor.update({ ...record, profileId });
+    cursor.continue();
+  };
+}
+
+export function isStorageAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](request.result, request.transaction!);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer tab upgrade the schema; this one reopens on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run `work` in one transaction and resolve with its result once it has
+// committed. Either everything `work` wrote is saved or none of it is.
+export async function withTransaction<T>(
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+  try {
+    const result = await work(tx);
+    await done;
+    return result;
+  } catch (err) {
+    if (!tx.error) {
+      try { tx.abort(); } catch { /* already finished */ }
+    }
+    throw err;
+  }
+}
+
+export function getAllRecords<T>(store: StoreName): Promise<T[]> {
+  return withTransaction([store], 'readonly', tx => requestResult(tx.objectStore(store).getAll()));
+}
+
+export function getRecord<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withTransaction([store], 'readonly', tx => requestResult(tx.objectStore(store).get(key)));
+}
+
+// Every record in the store belonging to one profile
+export function getProfileRecords<T>(store: StoreName, profileId: string): Promise<T[]> {
+  return withTransaction([store], 'readonly', tx =>
+    requestResult(tx.objectStore(store).index('profileId').getAll(profileId))
+  );
+}
+
+export function putRecord<T>(store: StoreName, value: T): Promise<void> {
+  return withTransaction([store], 'readwrite', tx => {
+    tx.objectStore(store).put(value);
+  });
+}
+
+export function deleteRecord(store: StoreName, key: IDBValidKey): Promise<void> {
+  return withTransaction([store], 'readwrite', tx => {
+    tx.objectStore(store).delete(key);
+  });
+}
+
+// Games matching every given filter, oldest first. The most selective
+// filter picks the index; the rest are applied to what it returns.
+export async function queryGames(query: GameQuery = {}): Promise<SavedGame[]> {
+  const { profileId, personality, outcome, from, to } = query;
+  const games = await withTransaction([STORES.games], 'readonly', tx => {
+    const store = tx.objectStore(STORES.games);
+    if (personality) return requestResult(store.index('personality').getAll(personality));
+    if (profileId) return requestResult(store.index('profileId').getAll(profileId));
+    if (outcome) return requestResult(store.index('outcome').getAll(outcome));
+    const range = from !== undefined || to !== undefined
+      ? IDBKeyRange.bound(from ?? 0, to ?? Number.MAX_SAFE_INTEGER)
+      : undefined;
+    return requestResult(store.index('date').getAll(range));
+  }) as StoredGame[];
+
+  return games
+    .filter(g => (!profileId || g.profileId === profileId) &&
+      (!outcome || g.outcome === outcome) &&
+      (from === undefined || g.date >= from) &&
+      (to === undefined || g.date <= to))
+    .sort((a, b) => a.date - b.date);
+}
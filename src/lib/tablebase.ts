@@ -0,0 +1,387 @@
+// ============================================================
+// RazorChess — Endgame Tablebases
+// Exact KQK, KRK and KPK results with distance to mate, built
+// by retrograde analysis: in a worker the first time each one is
+// probed, on the page a little at a time while it is idle
+// ============================================================
+
+import { Chess } from 'chess.js';
+import { MoveAnalysis, PositionEval } from './types';
+
+export type Wdl = 'win' | 'draw' | 'loss';
+
+export interface TablebaseProbe {
+  wdl: Wdl;                   // for the side to move
+  dtm: number | null;         // plies to mate with best play, null for draws
+}
+
+export interface TablebasePiece {
+  type: string;               // chess.js letters: p n b r q k
+  white: boolean;
+  square: number;             // 0 = a1 … 63 = h8
+}
+
+type TableKind = 'q' | 'r' | 'p';
+
+// Index: strong king, weak king, piece, side to move (0 strong, 1 weak).
+// The strong side is always White in the tables; Black is mirrored in.
+const TABLE_SIZE = 64 * 64 * 64 * 2;
+const STRONG = 0;
+const WEAK = 1;
+const DRAWN = 255;            // weak-to-move counter: a safe capture of the piece exists
+const PV_PLIES = 12;
+const MATE_SCORE = 99999;
+const FRONTIER_STEP = 2048;    // positions the idle build handles between pauses
+
+const ROOK_DIRS: Array<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const QUEEN_DIRS: Array<[number, number]> = [...ROOK_DIRS, [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+const KING_MOVES: number[][] = Array.from({ length: 64 }, (_, sq) => {
+  const targets: number[] = [];
+  for (const [df, dr] of QUEEN_DIRS) {
+    const file = (sq & 7) + df;
+    const rank = (sq >> 3) + dr;
+    if (file >= 0 && file < 8 && rank >= 0 && rank < 8) targets.push(rank * 8 + file);
+  }
+  return targets;
+});
+
+const tables = new Map<TableKind, Uint8Array>();
+let idleBuildStarted = false;
+
+const index = (sk: number, wk: number, piece: number, toMove: number) =>
+  (((sk << 6) | wk) << 6 | piece) << 1 | toMove;
+
+function adjacent(a: number, b: number): boolean {
+  return Math.abs((a & 7) - (b & 7)) <= 1 && Math.abs((a >> 3) - (b >> 3)) <= 1;
+}
+
+// Squares a slider reaches from `from`, stopping short of `blocker`
+function slide(from: number, dirs: Array<[number, number]>, blockers: number[], visit: (sq: number) => void): void {
+  for (const [df, dr] of dirs) {
+    let file = (from & 7) + df;
+    let rank = (from >> 3) + dr;
+    while (file >= 0 && file < 8 && rank >= 0 && rank < 8) {
+      const sq = rank * 8 + file;
+      if (blockers.includes(sq)) break;
+      visit(sq);
+      file += df;
+      rank += dr;
+    }
+  }
+}
+
+function pieceAttacks(kind: TableKind, from: number, target: number, blocker: number): boolean {
+  const df = (target & 7) - (from & 7);
+  const dr = (target >> 3) - (from >> 3);
+  if (kind === 'p') return dr === 1 && (df === 1 || df === -1);
+
+  const straight = df === 0 || dr === 0;
+  const diagonal = Math.abs(df) === Math.abs(dr);
+  if (from === target || !(straight || (kind === 'q' && diagonal))) return false;
+  // Only the other king can stand in between
+  const step = Math.sign(dr) * 8 + Math.sign(df);
+  for (let sq = from + step; sq !== target; sq += step) {
+    if (sq === blocker) return false;
+  }
+  return true;
+}
+
+function isLegal(kind: TableKind, sk: number, wk: number, piece: number, toMove: number): boolean {
+  if (sk === wk || sk === piece || wk === piece || adjacent(sk, wk)) return false;
+  if (kind === 'p' && (piece < 8 || piece >= 56)) return false;
+  // The side not to move can't be in check
+  return toMove === WEAK || !pieceAttacks(kind, piece, wk, sk);
+}
+
+// Where the strong piece could have come from to reach `piece`
+function pieceOrigins(kind: TableKind, sk: number, wk: number, piece: number): number[] {
+  const origins: number[] = [];
+  if (kind === 'p') {
+    const back = piece - 8;
+    if (back >= 8 && back !== sk && back !== wk) {
+      origins.push(back);
+      // Double step from the second rank
+      if (piece >> 3 === 3 && back - 8 !== sk && back - 8 !== wk) origins.push(back - 8);
+    }
+  } else {
+    slide(piece, kind === 'q' ? QUEEN_DIRS : ROOK_DIRS, [sk, wk], sq => origins.push(sq));
+  }
+  return origins;
+}
+
+// The build, pausing every so often so it can be spread over idle time
+function* buildSteps(kind: TableKind): Generator<void, Uint8Array> {
+  // value: 0 = draw, illegal or not yet known; otherwise plies to mate + 1
+  const value = new Uint8Array(TABLE_SIZE);
+  const pending = new Uint8Array(TABLE_SIZE);
+  let frontier: number[] = [];
+  // KPK wins run through promotion into the KQK / KRK tables
+  const promotionSeeds = new Map<number, number[]>();
+
+  for (let sk = 0; sk < 64; sk++) {
+    for (let wk = 0; wk < 64; wk++) {
+      for (let piece = 0; piece < 64; piece++) {
+        if (isLegal(kind, sk, wk, piece, WEAK)) {
+          let moves = 0;
+          let capture = false;
+          for (const to of KING_MOVES[wk]) {
+            if (to === sk || adjacent(to, sk)) continue;
+            if (to === piece) {
+              if (!adjacent(piece, sk)) capture = true;
+            } else if (!pieceAttacks(kind, piece, to, sk)) {
+              moves++;
+            }
+          }
+          const idx = index(sk, wk, piece, WEAK);
+          if (capture) {
+            pending[idx] = DRAWN;
+          } else if (moves === 0) {
+            // Mate when in check, stalemate (a draw) otherwise
+            if (pieceAttacks(kind, piece, wk, sk)) {
+              value[idx] = 1;
+              frontier.push(idx);
+            }
+          } else {
+            pending[idx] = moves;
+          }
+        }
+
+        if (kind === 'p' && piece >> 3 === 6 && isLegal(kind, sk, wk, piece, STRONG)) {
+          const queening = piece + 8;
+          if (queening === sk || queening === wk) continue;
+          let best = 0;
+          for (const promoted of ['q', 'r'] as const) {
+            const result = buildTable(promoted)[index(sk, wk, queening, WEAK)];
+            if (result && (!best || result + 1 < best)) best = result + 1;
+          }
+          if (best) {
+            const bucket = promotionSeeds.get(best) ?? [];
+            bucket.push(index(sk, wk, piece, STRONG));
+            promotionSeeds.set(best, bucket);
+          }
+        }
+      }
+    }
+    yield;
+  }
+
+  const maxSeed = Math.max(0, ...promotionSeeds.keys());
+  for (let level = 2; frontier.length > 0 || level <= maxSeed; level++) {
+    const next: number[] = [];
+
+    if (level % 2 === 0) {
+      // Strong to move: any move into a lost weak position wins
+      for (let i = 0; i < frontier.length; i++) {
+        if (i > 0 && i % FRONTIER_STEP === 0) yield;
+        const idx = frontier[i];
+        const piece = (idx >> 1) & 63;
+        const wk = (idx >> 7) & 63;
+        const sk = idx >> 13;
+        for (const from of KING_MOVES[sk]) {
+          if (from === wk || from === piece || adjacent(from, wk)) continue;
+          const prev = index(from, wk, piece, STRONG);
+          if (!value[prev] && isLegal(kind, from, wk, piece, STRONG)) {
+            value[prev] = level;
+            next.push(prev);
+          }
+        }
+        for (const from of pieceOrigins(kind, sk, wk, piece)) {
+          const prev = index(sk, wk, from, STRONG);
+          if (!value[prev] && isLegal(kind, sk, wk, from, STRONG)) {
+            value[prev] = level;
+            next.push(prev);
+          }
+        }
+      }
+      for (const idx of promotionSeeds.get(level) ?? []) {
+        if (!value[idx]) {
+          value[idx] = level;
+          next.push(idx);
+        }
+      }
+    } else {
+      // Weak to move: lost once every move leads to a strong win
+      for (let i = 0; i < frontier.length; i++) {
+        if (i > 0 && i % FRONTIER_STEP === 0) yield;
+        const idx = frontier[i];
+        const piece = (idx >> 1) & 63;
+        const wk = (idx >> 7) & 63;
+        const sk = idx >> 13;
+        for (const from of KING_MOVES[wk]) {
+          if (from === sk || from === piece || adjacent(from, sk)) continue;
+          const prev = index(sk, from, piece, WEAK);
+          if (value[prev] || pending[prev] === DRAWN || pending[prev] === 0) continue;
+          if (--pending[prev] === 0) {
+            value[prev] = level;
+            next.push(prev);
+          }
+        }
+      }
+    }
+    frontier = next;
+    yield;
+  }
+
+  return value;
+}
+
+// The table, built now if it hasn't been
+function buildTable(kind: TableKind): Uint8Array {
+  let table = tables.get(kind);
+  if (!table) {
+    const steps = buildSteps(kind);
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    table = step.value;
+    tables.set(kind, table);
+  }
+  return table;
+}
+
+// Building all three takes about a second, too long to block the page for,
+// so there the tables are built in idle time. KQK and KRK come first, as
+// KPK wins run through them.
+export function prepareTablebases(): void {
+  if (idleBuildStarted || typeof window === 'undefined') return;
+  idleBuildStarted = true;
+
+  const queue = (['q', 'r', 'p'] as TableKind[]).filter(kind => !tables.has(kind));
+  let current: { kind: TableKind; steps: Generator<void, Uint8Array> } | null = null;
+  const work = (deadline: IdleDeadline) => {
+    // At least one step per callback, even when it only came on the timeout
+    do {
+      if (!current) {
+        const kind = queue.shift();
+        if (!kind) return;
+        current = { kind, steps: buildSteps(kind) };
+      }
+      const step = current.steps.next();
+      if (step.done) {
+        tables.set(current.kind, step.value);
+        current = null;
+      }
+    } while (deadline.timeRemaining() > 0);
+    scheduleIdle(work);
+  };
+  scheduleIdle(work);
+}
+
+function scheduleIdle(callback: (deadline: IdleDeadline) => void): void {
+  if (typeof requestIdleCallback === 'function') {
+    requestIdleCallback(callback, { timeout: 1000 });
+  } else {
+    setTimeout(() => callback({ didTimeout: true, timeRemaining: () => 0 }), 0);
+  }
+}
+
+// The table, or null on the page until the idle build has finished it
+function getTable(kind: TableKind): Uint8Array | null {
+  if (typeof window === 'undefined') return buildTable(kind);
+  prepareTablebases();
+  return tables.get(kind) ?? null;
+}
+
+// Probe a position given as a piece list. Null when the material isn't
+// covered or its table isn't built yet; two bare kings, or a king and a
+// minor piece against a king, are draws without a table.
+export function probePieces(pieces: TablebasePiece[], whiteToMove: boolean): TablebaseProbe | null {
+  if (pieces.length < 2 || pieces.length > 3) return null;
+  const others = pieces.filter(p => p.type !== 'k');
+  if (others.length === 0) return { wdl: 'draw', dtm: null };
+  const [extra] = others;
+  if (extra.type === 'n' || extra.type === 'b') return { wdl: 'draw', dtm: null };
+
+  const kind = extra.type as TableKind;
+  // Mirror ranks so the strong side plays up the board as White
+  const flip = (sq: number) => (extra.white ? sq : sq ^ 56);
+  const strongKing = pieces.find(p => p.type === 'k' && p.white === extra.white);
+  const weakKing = pieces.find(p => p.type === 'k' && p.white !== extra.white);
+  if (!strongKing || !weakKing) return null;
+
+  const table = getTable(kind);
+  if (!table) return null;
+  const strongToMove = whiteToMove === extra.white;
+  const result = table[index(flip(strongKing.square), flip(weakKing.square), flip(extra.square), strongToMove ? STRONG : WEAK)];
+  if (!result) return { wdl: 'draw', dtm: null };
+  return { wdl: strongToMove ? 'win' : 'loss', dtm: result - 1 };
+}
+
+export function probeTablebase(fen: string): TablebaseProbe | null {
+  const [placement, side, castling] = fen.split(' ');
+  if (castling && castling !== '-') return null;
+
+  const pieces: TablebasePiece[] = [];
+  placement.split('/').forEach((row, r) => {
+    let file = 0;
+    for (const ch of row) {
+      if (ch >= '1' && ch <= '8') {
+        file += parseInt(ch);
+      } else {
+        pieces.push({ type: ch.toLowerCase(), white: ch !== ch.toLowerCase(), square: (7 - r) * 8 + file });
+        file++;
+      }
+    }
+  });
+  return probePieces(pieces, side !== 'b');
+}
+
+// A probe as a score for the side to move, in the engine's mate encoding
+// (±(99999 - moves to mate)); 0 for a draw
+export function tablebaseScore(probe: TablebaseProbe): number {
+  if (probe.wdl === 'draw' || probe.dtm === null) return 0;
+  const moves = Math.ceil(probe.dtm / 2);
+  return probe.wdl === 'win' ? MATE_SCORE - moves : -MATE_SCORE + moves;
+}
+
+// Every legal move scored by the tablebase, best first, from the mover's view
+function rankMoves(chess: Chess): Array<{ uci: string; san: string; score: number }> {
+  return chess.moves({ verbose: true })
+    .map(move => {
+      const reply = probeTablebase(move.after);
+      // The reply is probed for the opponent; seen from here it is one ply further
+      const score = reply && reply.dtm !== null
+        ? tablebaseScore({ wdl: reply.wdl === 'win' ? 'loss' : 'win', dtm: reply.dtm + 1 })
+        : 0;
+      return { uci: move.from + move.to + (move.promotion ?? ''), san: move.san, score };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// An exact PositionEval for a tablebase position, or null if it isn't one.
+// Lines follow the fastest mate for the winner and the longest defence.
+export function tablebaseEval(fen: string, multiPV: number = 1): PositionEval | null {
+  const probe = probeTablebase(fen);
+  if (!probe) return null;
+
+  const chess = new Chess(fen);
+  const whiteToMove = chess.turn() === 'w';
+  const toWhite = (score: number) => (whiteToMove ? score : -score);
+  const ranked = rankMoves(chess);
+
+  const bestMoves: MoveAnalysis[] = ranked.slice(0, Math.max(1, multiPV)).map((move, i) => {
+    const pv = [move.uci];
+    const pvSan = [move.san];
+    const line = new Chess(fen);
+    line.move(move.san);
+    while (pv.length < PV_PLIES && !line.isGameOver()) {
+      const [reply] = rankMoves(line);
+      if (!reply) break;
+      line.move(reply.san);
+      pv.push(reply.uci);
+      pvSan.push(reply.san);
+    }
+    return { move: move.uci, san: move.san, evaluation: toWhite(move.score), depth: probe.dtm ?? 0, isPV: i === 0, pv, pvSan };
+  });
+
+  // Mate distance for the side to move, like the engines report it
+  const mate = probe.dtm === null ? null : (probe.wdl === 'win' ? 1 : -1) * Math.ceil(probe.dtm / 2);
+  return {
+    fen,
+    bestMoves: chess.isGameOver() ? [] : bestMoves,
+    evaluation: toWhite(tablebaseScore(probe)),
+    depth: Math.max(1, probe.dtm ?? 1),
+    mate,
+    stopReason: 'completed',
+  };
+}
@@ -8,10 +8,49 @@ export interface StyleVector {
   trappy: number;       // 0-1: tendency to set tactical traps
 }
 
+export interface GlickoRating {
+  rating: number;
+  deviation: number;          // RD: one standard deviation of the rating estimate
+  volatility: number;         // how erratic the player's results are
+}
+
+export type GamePhase = 'opening' | 'middlegame' | 'endgame';
+
+export type PieceKind = 'pawn' | 'knight' | 'bishop' | 'rook' | 'queen' | 'king';
+
+export type TacticalMotif =
+  | 'fork'
+  | 'pin'
+  | 'skewer'
+  | 'discovered-attack'
+  | 'back-rank-mate'
+  | 'hanging-piece'
+  | 'overloaded-defender'
+  | 'deflection';
+
+export interface TacticalTag {
+  motif: TacticalMotif;
+  piece?: PieceKind;          // the piece that carries out the tactic, or the one left hanging
+}
+
+// A tactic the player missed or allowed, kept on the profile for a while
+export interface MissedTactic extends TacticalTag {
+  gameId: string;
+  date: number;
+}
+
+// Time controls are rated separately; untimed games form their own pool
+export type TimeControlPool = TimeControlCategory | 'untimed';
+
 export interface PlayerProfile {
   id: string;
   name: string;
-  elo: number;
+  elo: number;                // Glicko-2 rating
+  ratingDeviation?: number;   // Glicko-2 RD and volatility; missing on
+  ratingVolatility?: number;  // profiles saved before they were tracked
+  timeControlRatings?: Partial<Record<TimeControlPool, GlickoRating>>;
+  personalityRatings?: Partial<Record<Personality, GlickoRating>>;
+  phaseRatings?: Partial<Record<GamePhase, number>>;   // Elo-like play in each phase, smoothed over games
   openingAccuracy: number;
   tacticRating: number;
   endgameRating: number;
@@ -19,6 +58,7 @@ export interface PlayerProfile {
   timeManagement: number;     // 0-1: how well they use the clock
   styleVector: StyleVector;
   weaknesses: string[];
+  missedTactics?: MissedTactic[];   // recent ones only; missing on older saves
   gamesPlayed: number;
   movesAnalyzed: number;
 }
@@ -29,6 +69,8 @@ export interface MoveAnalysis {
   evaluation: number;         // centipawns from engine's perspective
   depth: number;
   isPV: boolean;              // is principal variation
+  pv: string[];               // full line in UCI, starting with `move`
+  pvSan: string[];            // same line in SAN
 }
 
 export interface PositionEval {
@@ -37,8 +79,14 @@ export interface PositionEval {
   evaluation: number;         // centipawns, positive = white advantage
   depth: number;
   mate: number | null;        // moves to mate, null if none
+  stopReason?: StopReason;    // set on final results, absent on streamed partials
 }
 
+// Why a search ended. 'time' and 'nodes' mean a requested limit was reached;
+// 'timeout' means the safety net fired and the result may be a fallback
+// (depth 0 if nothing was searched at all).
+export type StopReason = 'completed' | 'time' | 'nodes' | 'timeout' | 'aborted' | 'error';
+
 export interface AdaptiveConfig {
   targetEval: number;         // where we want the eval to hover (near 0)
   adaptiveStrength: number;   // 0-1: how aggressively we balance
@@ -55,9 +103,24 @@ export interface PersonalityConfig {
   description: string;
   styleWeights: StyleVector;
   adaptiveOverrides: Partial<AdaptiveConfig>;
+  takebackLimit: number | null;  // per casual game; null = unlimited
+  drawReplies: { accept: string; decline: string };
   commentary: string[];       // flavor text snippets
 }
 
+export type MoveClass =
+  | 'brilliant'
+  | 'great'
+  | 'best'
+  | 'excellent'
+  | 'good'
+  | 'book'
+  | 'forced'
+  | 'inaccuracy'
+  | 'mistake'
+  | 'miss'
+  | 'blunder';
+
 export interface GameMove {
   moveNumber: number;
   san: string;
@@ -65,16 +128,41 @@ export interface GameMove {
   fen: string;
   evaluation: number;
   bestEval: number;           // what Stockfish thought was best
+  bestLine: string[];         // engine's best line (SAN) from the position before the move
+  secondBestEval?: number;    // eval after the engine's second choice; missing if there was none, and on older saves
+  refutation?: string[];      // opponent's best line (SAN) after the move; analyzed moves only
   centipawnLoss: number;
   isBlunder: boolean;
   isMistake: boolean;
   isInaccuracy: boolean;
   isBrilliant: boolean;
+  classification?: MoveClass; // missing until analyzed, and on older saves
+  accuracy?: number;          // 0-100, from the win percentage the move gave away
+  motifs?: TacticalTag[];     // tactics behind a blunder (allowed) or a miss (not played)
   timestamp: number;
   thinkTime: number;          // ms the player/engine spent
+  clockMs?: number;           // mover's remaining time after the move (incl. increment); timed games only
+  thinking?: string;          // engine's explanation of its own move
+  comment?: string;           // annotator's comment, from an imported PGN
   isPlayerMove: boolean;
 }
 
+export type TimeControlCategory = 'bullet' | 'blitz' | 'rapid' | 'classical';
+
+export interface TimeControl {
+  initialMs: number;
+  incrementMs: number;        // Fischer increment, added after each move
+  delayMs: number;            // simple delay: the clock waits this long before running each move
+  category: TimeControlCategory;
+}
+
+export interface ClockState {
+  whiteMs: number;            // remaining time as of the last clock press
+  blackMs: number;
+  running: 'white' | 'black' | null;
+  turnStartedAt: number;      // when the running side's turn began
+}
+
 export interface GameState {
   id: string;
   playerColor: 'white' | 'black';
@@ -83,11 +171,16 @@ export interface GameState {
   playerProfile: PlayerProfile;
   personality: Personality;
   adaptiveConfig: AdaptiveConfig;
-  gamePhase: 'opening' | 'middlegame' | 'endgame';
+  startFen: string;           // standard start position unless set up from FEN/PGN
+  gamePhase: GamePhase;
   tensionScore: number;       // 0-10: how razor-tight the game is
   rollingAccuracy: number;    // player's accuracy this game (rolling window)
   momentumStreak: number;     // consecutive good/bad moves
   result: GameResult | null;
+  timeControl: TimeControl | null;  // null for untimed games
+  clock: ClockState | null;
+  rated: boolean;             // rated games allow no takebacks
+  takebacks: number;          // player moves taken back this game
   startTime: number;
   isThinking: boolean;
 }
@@ -95,14 +188,39 @@ export interface GameState {
 export type GameResult =
   | { type: 'checkmate'; winner: 'white' | 'black' }
   | { type: 'stalemate' }
-  | { type: 'draw'; reason: 'agreement' | 'repetition' | 'fifty-move' | 'insufficient' }
+  | {
+      type: 'draw';
+      // repetition and fifty-move are claimed; the rest end the game by themselves
+      reason: 'agreement' | 'repetition' | 'fifty-move' | 'insufficient' | 'fivefold-repetition' | 'seventy-five-move';
+    }
   | { type: 'resignation'; winner: 'white' | 'black' }
-  | { type: 'timeout'; winner: 'white' | 'black' };
+  | { type: 'timeout'; winner: 'white' | 'black' }
+  | { type: 'abandonment'; winner: 'white' | 'black' }   // the player left mid-game
+  | { type: 'aborted' };                                   // ended too early to count
+
+// A finished game as kept in the local history
+export interface SavedGame {
+  id: string;
+  date: number;
+  moves: GameMove[];
+  result: GameResult | null;
+  personality: Personality;
+  playerColor: 'white' | 'black';
+  tensionScore: number;
+  timeControl?: TimeControl | null;   // fields below are missing on older saves
+  startFen?: string;
+  playerName?: string;
+  playerElo?: number;                 // rating going into the game
+  rated?: boolean;
+  takebacks?: number;
+  profileId?: string;                 // the player's PlayerProfile.id
+}
 
 export interface PostGameAnalysis {
   gameId: string;
   playerAccuracy: number;
   engineAccuracy: number;
+  moveClasses: Partial<Record<MoveClass, number>>;   // player moves in each class
   tensionScore: number;
   criticalMoments: CriticalMoment[];
   openingName: string;
@@ -117,6 +235,8 @@ export interface CriticalMoment {
   fen: string;
   played: string;
   best: string;
+  bestLine: string[];         // SAN, starting with `best`
+  fenBefore: string;          // position the best line starts from
   evalSwing: number;
   description: string;
 }
@@ -127,4 +247,11 @@ export interface EloHistory {
   gameId: string;
   opponent: Personality;
   result: string;
+  eloChange?: number;         // missing on entries saved before it was recorded
+  deviation?: number;
+  timeControl?: TimeControlPool;
+  timeControlElo?: number;    // rating in that time control after the game
+  personalityElo?: number;    // rating against that personality after the game
+  phaseRatings?: Partial<Record<GamePhase, number>>;
+  profileId?: string;
 }